@@ -0,0 +1,88 @@
+/**
+ * The ads table row for a scraped ad
+ * import-ads loads this file as is from Deno, so it imports types only (dropped when Deno runs it)
+ */
+
+import type { MetaAd } from './types.js';
+
+// Unparseable timestamps are stored as NULL instead of failing the batch
+function toTimestamp(value: string | undefined): string | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * An ad as a row of the ads table, for import-ads and the Postgres sink
+ */
+export function toAdRow(ad: MetaAd): Record<string, unknown> {
+  return {
+    ad_fingerprint: ad.ad_fingerprint,
+    content_fingerprint: ad.content_fingerprint,
+    external_id: ad.ad_id,
+    ad_archive_id: ad.ad_archive_id,
+    platform: 'meta',
+    advertiser_id: ad.page_id,
+    advertiser_name: ad.page_name,
+    advertiser_profile_url: ad.page_profile_uri,
+    advertiser_profile_image: ad.page_profile_picture_url,
+    advertiser_page_likes: ad.page_likes,
+    advertiser_instagram_handle: ad.page_instagram_handle,
+    ad_text: ad.ad_text,
+    ad_bodies: ad.ad_creative_bodies,
+    link_title: ad.ad_creative_link_titles?.[0],
+    link_caption: ad.ad_creative_link_captions?.[0],
+    link_description: ad.ad_creative_link_descriptions?.[0],
+    cta_text: ad.cta_text,
+    cta_type: ad.cta_type,
+    cta_category: ad.cta_category,
+    landing_page_url: ad.landing_page_url,
+    landing_domain: ad.landing_domain,
+    utm_params: ad.utm_params,
+    phone_numbers: ad.phone_numbers,
+    offers: ad.offers,
+    offer_types: ad.offer_types,
+    promo_codes: ad.promo_codes,
+    mentioned_cities: ad.mentioned_cities,
+    matched_keywords: ad.matched_keywords,
+    relevance_score: ad.relevance_score,
+    relevance_signals: ad.relevance_signals,
+    is_relevant: ad.is_relevant,
+    media_type: ad.media_type,
+    media_urls: ad.media_urls,
+    thumbnail_url: ad.thumbnail_url,
+    archived_media: ad.archived_media,
+    archived_thumbnail_url: ad.archived_thumbnail_url,
+    archived_video_url: ad.archived_video_url,
+    media_hashes: ad.archived_media?.map(media => media.sha256),
+    perceptual_hashes: ad.perceptual_hashes,
+    creative_group_id: ad.creative_group_id,
+    copy_group_id: ad.copy_group_id,
+    is_active: ad.is_active,
+    started_at: toTimestamp(ad.ad_delivery_start_time),
+    stopped_at: toTimestamp(ad.ad_delivery_stop_time),
+    currency: ad.currency,
+    spend_lower: ad.spend_lower,
+    spend_upper: ad.spend_upper,
+    impressions_lower: ad.impressions_lower,
+    impressions_upper: ad.impressions_upper,
+    platforms: ad.platforms,
+    publisher_platforms: ad.publisher_platforms,
+    target_locations: ad.target_locations,
+    target_ages: ad.target_ages,
+    target_gender: ad.target_gender,
+    demographic_distribution: ad.demographic_distribution,
+    eu_total_reach: ad.eu_total_reach,
+    beneficiary_payers: ad.beneficiary_payers,
+    search_query: ad.search_query,
+    search_location: ad.search_location,
+    search_city: ad.search_city,
+    search_state: ad.search_state,
+    search_country: ad.search_country,
+    category: ad.category,
+    source_url: ad.source_url,
+    scraped_at: ad.scraped_at,
+    last_seen_at: ad.scraped_at,
+    raw_data: ad,
+  };
+}
@@ -0,0 +1,145 @@
+/**
+ * Block and captcha detection for Meta Ads Library
+ * Tells empty results apart from login walls, rate limits and captchas, and tracks block rates per proxy group
+ */
+
+import { Page } from 'playwright';
+import { CARD_SELECTORS } from './selectors.js';
+
+export type PageState = 'results' | 'empty' | 'login_wall' | 'rate_limited' | 'captcha' | 'unknown';
+
+export interface PageSignals {
+  url: string;
+  text: string;
+  cardCount: number;
+  hasLoginForm: boolean;
+  hasCaptcha: boolean;
+}
+
+const RATE_LIMIT_PATTERNS = [
+  /please try again later/i,
+  /you('|’)re temporarily blocked/i,
+  /you('|’)ve been temporarily blocked/i,
+  /rate limit/i,
+  /something went wrong/i,
+];
+
+const LOGIN_PATTERNS = [
+  /log in to continue/i,
+  /you must log in/i,
+  /log into facebook/i,
+];
+
+const CAPTCHA_PATTERNS = [
+  /security check/i,
+  /enter the characters you see/i,
+  /confirm you('|’)re human/i,
+];
+
+const EMPTY_PATTERNS = [
+  /no ads match/i,
+  /no results/i,
+  /~?0 results/i,
+];
+
+/**
+ * Blocked pages are retried on a fresh proxy session instead of being counted as done
+ */
+export class BlockedError extends Error {
+  constructor(public readonly state: PageState, message?: string) {
+    super(message || `Page blocked: ${state}`);
+    this.name = 'BlockedError';
+  }
+}
+
+export function isBlocked(state: PageState): boolean {
+  return state === 'login_wall' || state === 'rate_limited' || state === 'captcha';
+}
+
+/**
+ * Classify a page from its signals. Ads on the page win over any block text elsewhere.
+ */
+export function classifySignals(signals: PageSignals): PageState {
+  if (signals.hasCaptcha || signals.url.includes('/checkpoint/') || CAPTCHA_PATTERNS.some(p => p.test(signals.text))) {
+    return 'captcha';
+  }
+  if (signals.cardCount > 0) {
+    return 'results';
+  }
+  if (signals.hasLoginForm || signals.url.includes('/login') || LOGIN_PATTERNS.some(p => p.test(signals.text))) {
+    return 'login_wall';
+  }
+  if (RATE_LIMIT_PATTERNS.some(p => p.test(signals.text))) {
+    return 'rate_limited';
+  }
+  if (EMPTY_PATTERNS.some(p => p.test(signals.text))) {
+    return 'empty';
+  }
+  return 'unknown';
+}
+
+/**
+ * Collect classification signals from the live page
+ */
+export async function readPageSignals(page: Page, cardSelector = CARD_SELECTORS.card): Promise<PageSignals> {
+  const signals = await page.evaluate((cardSelector) => ({
+    text: document.body?.innerText || '',
+    cardCount: document.querySelectorAll(cardSelector).length,
+    hasLoginForm: !!document.querySelector('form#login_form, form[action*="/login"], input[name="pass"]'),
+    hasCaptcha: !!document.querySelector('iframe[src*="captcha"], #captcha, [id*="captcha"], iframe[src*="recaptcha"]'),
+  }), cardSelector);
+
+  return { url: page.url(), ...signals };
+}
+
+export async function classifyPage(page: Page, cardSelector?: string): Promise<PageState> {
+  return classifySignals(await readPageSignals(page, cardSelector));
+}
+
+/**
+ * Block counts per proxy group, plus a rolling window across all groups for concurrency decisions
+ */
+export class BlockTracker {
+  private groups = new Map<string, { requests: number; blocked: number; byState: Record<string, number> }>();
+  private recent: boolean[] = [];
+
+  constructor(private windowSize = 20) {}
+
+  record(group: string, state: PageState) {
+    const blocked = isBlocked(state);
+    const stats = this.groups.get(group) || { requests: 0, blocked: 0, byState: {} };
+    stats.requests++;
+    if (blocked) stats.blocked++;
+    stats.byState[state] = (stats.byState[state] || 0) + 1;
+    this.groups.set(group, stats);
+
+    this.recent.push(blocked);
+    if (this.recent.length > this.windowSize) this.recent.shift();
+  }
+
+  /**
+   * Block rate over the last `windowSize` pages, or null until the window has filled
+   */
+  get recentBlockRate(): number | null {
+    if (this.recent.length < this.windowSize) return null;
+    return this.recent.filter(Boolean).length / this.recent.length;
+  }
+
+  /**
+   * Start a fresh window, e.g. after concurrency changed
+   */
+  resetWindow() {
+    this.recent = [];
+  }
+
+  get stats() {
+    const result: Record<string, { requests: number; blocked: number; blockRate: number; byState: Record<string, number> }> = {};
+    for (const [group, stats] of this.groups) {
+      result[group] = {
+        ...stats,
+        blockRate: stats.requests > 0 ? stats.blocked / stats.requests : 0,
+      };
+    }
+    return result;
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Bloom filter of stored ad fingerprints, the compact format get-fingerprints can return
+ * Hashes exactly like supabase/functions/_shared/bloom.ts: FNV-1a over UTF-8 with two offset bases,
+ * bit i of k at (h1 + i * h2) mod m, bits packed LSB first
+ */
+
+const FNV_PRIME = 0x01000193;
+const SEED_1 = 0x811c9dc5;
+const SEED_2 = 0x5bd1e995;
+
+/**
+ * A filter as get-fingerprints sends it, bits in base64
+ */
+export interface SerializedBloom {
+  m: number;
+  k: number;
+  count: number;
+  bits: string;
+}
+
+function fnv1a(bytes: Uint8Array, seed: number): number {
+  let hash = seed;
+  for (const byte of bytes) {
+    hash ^= byte;
+    hash = Math.imul(hash, FNV_PRIME);
+  }
+  return hash >>> 0;
+}
+
+export class BloomFilter {
+  constructor(
+    readonly m: number,
+    readonly k: number,
+    readonly bits: Uint8Array = new Uint8Array(Math.ceil(m / 8)),
+    public count = 0
+  ) {
+    if (bits.length !== Math.ceil(m / 8)) {
+      throw new Error('Bloom filter has ' + bits.length + ' bytes, expected ' + Math.ceil(m / 8));
+    }
+  }
+
+  static fromJSON(data: SerializedBloom): BloomFilter {
+    return new BloomFilter(data.m, data.k, new Uint8Array(Buffer.from(data.bits, 'base64')), data.count);
+  }
+
+  private *positions(value: string): Generator<number> {
+    const bytes = Buffer.from(value, 'utf-8');
+    const h1 = fnv1a(bytes, SEED_1);
+    const h2 = (fnv1a(bytes, SEED_2) | 1) >>> 0;
+    for (let i = 0; i < this.k; i++) {
+      yield (h1 + i * h2) % this.m;
+    }
+  }
+
+  add(value: string) {
+    for (const bit of this.positions(value)) {
+      this.bits[bit >> 3] |= 1 << (bit & 7);
+    }
+    this.count++;
+  }
+
+  has(value: string): boolean {
+    for (const bit of this.positions(value)) {
+      if (!(this.bits[bit >> 3] & (1 << (bit & 7)))) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Add another page of the same filter (same m and k)
+   */
+  merge(other: BloomFilter) {
+    if (other.m !== this.m || other.k !== this.k) {
+      throw new Error('Cannot merge Bloom filters of different sizes');
+    }
+    for (let i = 0; i < this.bits.length; i++) {
+      this.bits[i] |= other.bits[i];
+    }
+    this.count += other.count;
+  }
+
+  /**
+   * Expected share of lookups for absent values that still match
+   */
+  get falsePositiveRate(): number {
+    return Math.pow(1 - Math.exp(-this.k * this.count / this.m), this.k);
+  }
+
+  toJSON(): SerializedBloom {
+    return { m: this.m, k: this.k, count: this.count, bits: Buffer.from(this.bits).toString('base64') };
+  }
+}
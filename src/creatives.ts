@@ -0,0 +1,288 @@
+/**
+ * Creative grouping for Meta Ads Library
+ * Links ads that reuse near-identical images (perceptual hash) or near-identical copy (A/B variants)
+ */
+
+import { createHash } from 'crypto';
+import sharp from 'sharp';
+import { log } from 'crawlee';
+import { MetaAd } from './types.js';
+import { fetchMedia } from './media.js';
+
+const DCT_SIZE = 32;
+const LOW_FREQUENCIES = 8;
+const MAX_HASHED_IMAGES = 3;
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+const COSINES = Array.from({ length: LOW_FREQUENCIES }, (_, u) =>
+  Array.from({ length: DCT_SIZE }, (_, x) => Math.cos(((2 * x + 1) * u * Math.PI) / (2 * DCT_SIZE)))
+);
+
+/**
+ * 64-bit DCT perceptual hash as 16 hex chars. Survives resizing, recompression and small overlays.
+ */
+export async function perceptualHash(image: Buffer): Promise<string> {
+  const pixels = await sharp(image)
+    .greyscale()
+    .resize(DCT_SIZE, DCT_SIZE, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+
+  const coefficients: number[] = [];
+  for (let u = 0; u < LOW_FREQUENCIES; u++) {
+    for (let v = 0; v < LOW_FREQUENCIES; v++) {
+      let sum = 0;
+      for (let y = 0; y < DCT_SIZE; y++) {
+        for (let x = 0; x < DCT_SIZE; x++) {
+          sum += pixels[y * DCT_SIZE + x] * COSINES[u][x] * COSINES[v][y];
+        }
+      }
+      coefficients.push(sum);
+    }
+  }
+
+  // The DC term only carries overall brightness
+  const sorted = coefficients.slice(1).sort((a, b) => a - b);
+  const median = (sorted[31] + sorted[32]) / 2;
+
+  let hash = '';
+  for (let i = 0; i < coefficients.length; i += 4) {
+    let nibble = 0;
+    for (let bit = 0; bit < 4; bit++) {
+      nibble = (nibble << 1) | (coefficients[i + bit] > median ? 1 : 0);
+    }
+    hash += nibble.toString(16);
+  }
+  return hash;
+}
+
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+export function normalizeCopy(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+function copyWords(text: string): Set<string> {
+  return new Set(normalizeCopy(text).split(' ').filter(Boolean));
+}
+
+function jaccard(left: Set<string>, right: Set<string>): number {
+  if (left.size === 0 || right.size === 0) return 0;
+
+  let shared = 0;
+  for (const word of left) {
+    if (right.has(word)) shared++;
+  }
+  return shared / (left.size + right.size - shared);
+}
+
+/**
+ * Jaccard similarity of the word sets, so a changed price or swapped phrase still matches
+ */
+export function textSimilarity(a: string, b: string): number {
+  return jaccard(copyWords(a), copyWords(b));
+}
+
+/**
+ * Each 64-bit hash cut into 8 bands of 8 bits, tagged with their position ('3:a7'), as phash_bands does in SQL.
+ * Hashes within 7 bits of each other differ in at most 7 bands, so they always share one.
+ */
+function hashBands(hash: string): string[] {
+  return Array.from({ length: 8 }, (_, band) => band + ':' + hash.slice(band * 2, band * 2 + 2).toLowerCase());
+}
+
+/**
+ * Images worth hashing: the still creatives, or the thumbnail of a video ad
+ */
+function hashableImages(ad: MetaAd): string[] {
+  if (ad.media_type === 'video') {
+    return ad.thumbnail_url ? [ad.thumbnail_url] : [];
+  }
+  return (ad.media_urls || [])
+    .filter(url => url !== ad.video_url && !/\.(mp4|mov|webm)(\?|$)/i.test(url))
+    .slice(0, MAX_HASHED_IMAGES);
+}
+
+interface VisualGroup {
+  id: string;
+  hashes: string[];
+}
+
+interface CopyGroup {
+  id: string;
+  pageId: string;
+  words: Set<string>;
+}
+
+/**
+ * Persisted between migrations: group IDs with the hashes and word sets they match on, never the ad copy.
+ * `text` is only read from state saved before word sets were stored.
+ */
+export interface CreativeGroupState {
+  visual: VisualGroup[];
+  copy: { id: string; pageId: string; words?: string[]; text?: string }[];
+}
+
+/**
+ * Assigns creative_group_id (near-identical images) and copy_group_id (near-identical text from the same page).
+ * Group IDs come from the first member, so they stay stable as later ads join.
+ */
+export class CreativeGrouper {
+  private hashes = new Map<string, Promise<string | null>>();
+  private visual: VisualGroup[] = [];
+  private visualByBand = new Map<string, VisualGroup[]>();
+  private copyByPage = new Map<string, CopyGroup[]>();
+  private copyGroups = 0;
+  private hashedAds = 0;
+
+  constructor(
+    private maxDistance = 6,
+    private minSimilarity = 0.7
+  ) {}
+
+  private hashImage(url: string): Promise<string | null> {
+    let hash = this.hashes.get(url);
+    if (!hash) {
+      hash = fetchMedia(url, MAX_IMAGE_BYTES).then(({ data }) => this.hashBytes(url, data), error => {
+        log.debug(`Could not hash ${url}: ${error}`);
+        return null;
+      });
+      this.hashes.set(url, hash);
+    }
+    return hash;
+  }
+
+  private hashBytes(url: string, data: Buffer): Promise<string | null> {
+    return perceptualHash(data).catch(error => {
+      log.debug(`Could not hash ${url}: ${error}`);
+      return null;
+    });
+  }
+
+  /**
+   * A download hook that hashes the images groupAds will need from bytes another download (the media archiver)
+   * already holds, so they aren't fetched twice. Only the hashes are kept.
+   */
+  hashDownloaded(ads: MetaAd[]): (url: string, data: Buffer) => void {
+    const wanted = new Set(ads.flatMap(hashableImages));
+    return (url, data) => {
+      if (!wanted.has(url) || this.hashes.has(url) || data.length > MAX_IMAGE_BYTES) return;
+      this.hashes.set(url, this.hashBytes(url, data));
+    };
+  }
+
+  private indexVisual(group: VisualGroup, hashes: string[]) {
+    for (const band of new Set(hashes.flatMap(hashBands))) {
+      const groups = this.visualByBand.get(band);
+      if (!groups) this.visualByBand.set(band, [group]);
+      else if (!groups.includes(group)) groups.push(group);
+    }
+  }
+
+  private visualGroupFor(hashes: string[]): string {
+    // Within 7 bits a match shares a band with the hash; wider distances need every group compared
+    const candidates = this.maxDistance <= 7
+      ? new Set(hashes.flatMap(hashBands).flatMap(band => this.visualByBand.get(band) || []))
+      : this.visual;
+    let match: VisualGroup | undefined;
+    for (const group of candidates) {
+      if (group.hashes.some(known => hashes.some(hash => hammingDistance(known, hash) <= this.maxDistance))) {
+        match = group;
+        break;
+      }
+    }
+    if (match) {
+      const added = hashes.filter(hash => !match.hashes.includes(hash));
+      match.hashes.push(...added);
+      this.indexVisual(match, added);
+      return match.id;
+    }
+
+    const group = { id: 'cg_' + hashes[0], hashes: [...hashes] };
+    this.visual.push(group);
+    this.indexVisual(group, group.hashes);
+    return group.id;
+  }
+
+  private addCopyGroup(group: CopyGroup) {
+    const groups = this.copyByPage.get(group.pageId);
+    if (groups) groups.push(group);
+    else this.copyByPage.set(group.pageId, [group]);
+    this.copyGroups++;
+  }
+
+  private copyGroupFor(pageId: string, text: string): string {
+    const words = copyWords(text);
+    const match = this.copyByPage.get(pageId)?.find(group => jaccard(group.words, words) >= this.minSimilarity);
+    if (match) return match.id;
+
+    const id = 'cv_' + createHash('sha256').update(pageId + '|' + normalizeCopy(text)).digest('hex').slice(0, 16);
+    this.addCopyGroup({ id, pageId, words });
+    return id;
+  }
+
+  async groupAds(ads: MetaAd[]): Promise<number> {
+    let grouped = 0;
+
+    for (const ad of ads) {
+      const hashes = (await Promise.all(hashableImages(ad).map(url => this.hashImage(url))))
+        .filter((hash): hash is string => hash !== null);
+
+      if (hashes.length > 0) {
+        ad.perceptual_hashes = [...new Set(hashes)];
+        ad.creative_group_id = this.visualGroupFor(ad.perceptual_hashes);
+        this.hashedAds++;
+      }
+
+      const text = ad.ad_text || ad.ad_creative_bodies?.[0] || '';
+      if (normalizeCopy(text)) {
+        ad.copy_group_id = this.copyGroupFor(ad.page_id, text);
+      }
+
+      if (ad.creative_group_id || ad.copy_group_id) grouped++;
+    }
+
+    return grouped;
+  }
+
+  toState(): CreativeGroupState {
+    const copy = [...this.copyByPage.values()].flat()
+      .map(group => ({ id: group.id, pageId: group.pageId, words: [...group.words] }));
+    return { visual: this.visual, copy };
+  }
+
+  restore(state: CreativeGroupState) {
+    this.visual = state.visual;
+    this.visualByBand.clear();
+    for (const group of this.visual) this.indexVisual(group, group.hashes);
+
+    this.copyByPage.clear();
+    this.copyGroups = 0;
+    for (const group of state.copy) {
+      const words = group.words ? new Set(group.words) : copyWords(group.text || '');
+      this.addCopyGroup({ id: group.id, pageId: group.pageId, words });
+    }
+  }
+
+  get stats() {
+    return {
+      hashedAds: this.hashedAds,
+      creativeGroups: this.visual.length,
+      copyGroups: this.copyGroups,
+    };
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Ad detail scraping for Meta Ads Library
+ * Opens each ad's "See ad details" view and reads targeting and EU transparency data
+ */
+
+import { Page } from 'playwright';
+import { log } from 'crawlee';
+import { MetaAd } from './types.js';
+import { buildAdDetailsUrl } from './scraper.js';
+import { GRAPHQL_PATH, parseGraphQLDocuments, walkJson } from './graphql.js';
+
+const DETAILS_TIMEOUT = 15000;
+const NAVIGATION_TIMEOUT = 30000;
+// Longest one ad can take: navigation, then the button and the response wait
+const MAX_AD_DETAILS_MS = NAVIGATION_TIMEOUT + 2 * DETAILS_TIMEOUT;
+
+interface AgeGenderBreakdown {
+  age_range?: string;
+  male?: number | null;
+  female?: number | null;
+  unknown?: number | null;
+}
+
+interface CountryBreakdown {
+  country?: string;
+  age_gender_breakdowns?: AgeGenderBreakdown[];
+}
+
+/**
+ * The aaa_info block of an AdLibraryAdDetails graphql response
+ */
+export interface AdDetailsInfo {
+  age_audience?: { min?: number | null; max?: number | null } | null;
+  gender_audience?: string | null;
+  location_audience?: { name?: string; excluded?: boolean }[] | null;
+  eu_total_reach?: number | null;
+  age_country_gender_reach_breakdown?: CountryBreakdown[] | null;
+  payer_beneficiary_data?: { payer?: string | null; beneficiary?: string | null }[] | null;
+}
+
+/**
+ * Find the transparency info in a raw ad details response body
+ */
+export function parseAdDetailsResponse(body: string): AdDetailsInfo | null {
+  let info: AdDetailsInfo | null = null;
+
+  for (const document of parseGraphQLDocuments(body)) {
+    walkJson(document, (node) => {
+      if (!info && node.aaa_info && typeof node.aaa_info === 'object') {
+        info = node.aaa_info as AdDetailsInfo;
+      }
+    });
+  }
+
+  return info;
+}
+
+/**
+ * Copy targeting and EU transparency fields onto an ad
+ */
+export function applyAdDetails(ad: MetaAd, info: AdDetailsInfo): MetaAd {
+  const age = info.age_audience;
+  if (age?.min) {
+    ad.target_ages = age.max ? `${age.min}-${age.max >= 65 ? '65+' : age.max}` : `${age.min}+`;
+  }
+
+  if (info.gender_audience) {
+    ad.target_gender = info.gender_audience.toLowerCase();
+  }
+
+  const locations = (info.location_audience || [])
+    .filter(location => location.name && !location.excluded)
+    .map(location => location.name as string);
+  if (locations.length > 0) {
+    ad.target_locations = locations;
+  }
+
+  if (typeof info.eu_total_reach === 'number') {
+    ad.eu_total_reach = info.eu_total_reach;
+  }
+
+  const breakdown = info.age_country_gender_reach_breakdown || [];
+  if (breakdown.length > 0) {
+    const distribution: Record<string, Record<string, { male: number; female: number; unknown: number }>> = {};
+    for (const country of breakdown) {
+      if (!country.country) continue;
+      distribution[country.country] = {};
+      for (const row of country.age_gender_breakdowns || []) {
+        if (!row.age_range) continue;
+        distribution[country.country][row.age_range] = {
+          male: row.male || 0,
+          female: row.female || 0,
+          unknown: row.unknown || 0,
+        };
+      }
+    }
+    ad.demographic_distribution = distribution;
+  }
+
+  const payers = new Set<string>();
+  for (const entry of info.payer_beneficiary_data || []) {
+    if (entry.beneficiary) payers.add(entry.beneficiary);
+    if (entry.payer) payers.add(entry.payer);
+  }
+  if (payers.size > 0) {
+    ad.beneficiary_payers = [...payers];
+  }
+
+  return ad;
+}
+
+/**
+ * Open the detail view for a single ad and wait for its transparency payload
+ */
+async function fetchAdDetails(page: Page, adArchiveId: string): Promise<AdDetailsInfo | null> {
+  let info: AdDetailsInfo | null = null;
+
+  const detailsResponse = page.waitForResponse(async (response) => {
+    if (!response.url().includes(GRAPHQL_PATH)) return false;
+    try {
+      info = parseAdDetailsResponse(await response.text());
+    } catch {
+      return false;
+    }
+    return info !== null;
+  }, { timeout: DETAILS_TIMEOUT }).catch(() => null);
+
+  await page.goto(buildAdDetailsUrl(adArchiveId), {
+    waitUntil: 'domcontentloaded',
+    timeout: NAVIGATION_TIMEOUT,
+  });
+
+  const button = await page.waitForSelector('text=See ad details', { timeout: DETAILS_TIMEOUT }).catch(() => null);
+  if (button) {
+    await button.click();
+  }
+
+  await detailsResponse;
+  return info;
+}
+
+/**
+ * Fill detail fields for ads that have a Library ID. Ads that could not finish before the deadline
+ * (epoch ms) are left without details, so the request handler doesn't time out mid-query.
+ */
+export async function scrapeAdDetails(page: Page, ads: MetaAd[], deadline = Infinity): Promise<number> {
+  let enriched = 0;
+  let skipped = 0;
+
+  for (const ad of ads) {
+    if (!ad.ad_archive_id) continue;
+    if (Date.now() + MAX_AD_DETAILS_MS > deadline) {
+      skipped++;
+      continue;
+    }
+
+    try {
+      const info = await fetchAdDetails(page, ad.ad_archive_id);
+      if (info) {
+        applyAdDetails(ad, info);
+        enriched++;
+      } else {
+        log.debug(`No details payload for ad ${ad.ad_archive_id}`);
+      }
+    } catch (error) {
+      log.debug(`Could not load details for ad ${ad.ad_archive_id}: ${error}`);
+    }
+  }
+
+  if (skipped > 0) {
+    log.warning(`Out of time for ad details, skipped ${skipped} ads`);
+  }
+
+  return enriched;
+}
@@ -0,0 +1,24 @@
+/**
+ * Offer extraction from ad copy
+ * Run with `npm test`
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { extractOffers } from './enrichment.js';
+
+describe('extractOffers', () => {
+  it('reads percent-off offers', () => {
+    assert.deepEqual(extractOffers('100% off your first cleaning'), [{ type: 'percent_off', text: '100% off', value: 100 }]);
+    assert.deepEqual(extractOffers('Save 15% on every tune-up'), [{ type: 'percent_off', text: 'Save 15%', value: 15 }]);
+    assert.deepEqual(extractOffers('Get 20% off this week'), [{ type: 'percent_off', text: 'Get 20% off', value: 20 }]);
+  });
+
+  it('does not read part of a number as the percentage', () => {
+    assert.deepEqual(extractOffers('Call 5551100% off'), []);
+  });
+
+  it('reads amount-off offers', () => {
+    assert.deepEqual(extractOffers('$50 off any repair'), [{ type: 'amount_off', text: '$50 off', value: 50 }]);
+  });
+});
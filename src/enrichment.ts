@@ -0,0 +1,124 @@
+/**
+ * Ad copy enrichment for local competitor reports
+ * Phone numbers, offers, promo codes, city mentions and which query keywords the copy uses
+ */
+
+import { AdOffer, MetaAd, SearchQuery } from './types.js';
+import { STATE_CITIES } from './regions.js';
+import { parseNumber } from './parsers.js';
+
+const NANP_PHONE = /(?:\+?1[\s.-]?)?\(?\b([2-9]\d{2})\)?[\s.-]?([2-9]\d{2})[\s.-]?(\d{4})\b/g;
+const INTERNATIONAL_PHONE = /\+(?!1\b)\d{1,3}[\s.-]?(?:\(?\d{1,4}\)?[\s.-]?){2,4}\d{2,4}\b/g;
+
+// Code must be uppercase letters/digits with at least one letter, e.g. "SPRING20"
+const PROMO_CODE = /\b(?:promo code|coupon code|discount code|use code|code|coupon)\s*:?\s*["'“]?([A-Z0-9][A-Z0-9-]{2,14})\b/gi;
+
+const AMOUNT = String.raw`\$\s?(\d[\d,]*(?:\.\d{2})?)`;
+
+const OFFER_PATTERNS: { type: AdOffer['type']; pattern: RegExp }[] = [
+  { type: 'percent_off', pattern: /(?:\b(?:save|up to|take|get)\s*)?\b(\d{1,3}(?:\.\d)?)\s?%\s*(?:off|discount)|\bsave\s+(?:up to\s+)?\b(\d{1,3})\s?%/gi },
+  { type: 'amount_off', pattern: new RegExp(`${AMOUNT}\\s*(?:off|discount|rebate|instant savings)|\\bsave\\s+(?:up to\\s+)?${AMOUNT}`, 'gi') },
+  { type: 'price', pattern: new RegExp(`(?:only|just|starting at|starts at|from|as low as)\\s+${AMOUNT}|${AMOUNT}\\s*(?:/|per\\s+)(?:mo|month|hr|hour|visit)\\b`, 'gi') },
+  { type: 'financing', pattern: /\bfinancing\b|\b0\s?%\s*(?:apr|interest)\b|\bno interest\b|\bpayment plans?\b|\blow monthly payments?\b/gi },
+  { type: 'free', pattern: /\bfree\s+(?:estimates?|quotes?|inspections?|consultations?|delivery|installation|shipping|diagnostics?|service calls?)\b/gi },
+];
+
+const STOPWORDS = new Set(['and', 'or', 'the', 'a', 'an', 'in', 'of', 'for', 'near', 'me', 'to', 'with']);
+
+function normalizePhone(match: RegExpMatchArray): string {
+  if (match[1] && match[2] && match[3]) return `+1${match[1]}${match[2]}${match[3]}`;
+  return '+' + match[0].replace(/\D/g, '');
+}
+
+export function extractPhoneNumbers(text: string): string[] {
+  const phones = new Set<string>();
+  for (const match of text.matchAll(NANP_PHONE)) phones.add(normalizePhone(match));
+  for (const match of text.matchAll(INTERNATIONAL_PHONE)) phones.add(normalizePhone(match));
+  return [...phones];
+}
+
+export function extractOffers(text: string): AdOffer[] {
+  const offers: AdOffer[] = [];
+
+  for (const { type, pattern } of OFFER_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const raw = match.slice(1).find(group => group !== undefined);
+      const value = raw !== undefined ? parseNumber(raw) : undefined;
+      const offer: AdOffer = { type, text: match[0].trim() };
+      if (value !== undefined) offer.value = value;
+      if (!offers.some(existing => existing.type === type && existing.text.toLowerCase() === offer.text.toLowerCase())) {
+        offers.push(offer);
+      }
+    }
+  }
+
+  return offers;
+}
+
+export function extractPromoCodes(text: string): string[] {
+  const codes = new Set<string>();
+  for (const match of text.matchAll(PROMO_CODE)) {
+    const code = match[1];
+    if (code === code.toUpperCase() && /[A-Z]/.test(code)) codes.add(code);
+  }
+  return [...codes];
+}
+
+/**
+ * Cities named in the copy, from the query's own city and its state's city list
+ */
+export function extractCityMentions(text: string, query: SearchQuery): string[] {
+  const candidates = new Set<string>(STATE_CITIES[(query.state || '').toUpperCase()] || []);
+  if (query.city) candidates.add(query.city);
+
+  const lower = text.toLowerCase();
+  return [...candidates].filter(city => {
+    const escaped = city.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`\\b${escaped}\\b`).test(lower);
+  });
+}
+
+/**
+ * The query's keyword, and its individual words, that appear in the copy (plurals count)
+ */
+export function extractMatchedKeywords(text: string, keyword: string): string[] {
+  if (!keyword || keyword.startsWith('page:')) return [];
+
+  const lower = text.toLowerCase();
+  const phrase = keyword.toLowerCase().trim();
+  const terms = [phrase, ...phrase.split(/\s+/).filter(word => word.length > 2 && !STOPWORDS.has(word))];
+
+  return [...new Set(terms)].filter(term => {
+    const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`\\b${escaped}(?:s|es)?\\b`).test(lower);
+  });
+}
+
+/**
+ * Fill the enrichment fields of an ad from all of its copy
+ */
+export function enrichAd(ad: MetaAd, query: SearchQuery): MetaAd {
+  const text = [
+    ad.ad_text,
+    ...(ad.ad_creative_bodies || []),
+    ...(ad.ad_creative_link_titles || []),
+    ...(ad.ad_creative_link_descriptions || []),
+  ].filter(Boolean).join('\n');
+
+  if (!text) return ad;
+
+  const phones = extractPhoneNumbers(text);
+  if (ad.landing_page_url?.startsWith('tel:')) {
+    phones.push(...extractPhoneNumbers(ad.landing_page_url.slice(4)).filter(phone => !phones.includes(phone)));
+  }
+  const offers = extractOffers(text);
+
+  ad.phone_numbers = phones;
+  ad.offers = offers;
+  ad.offer_types = [...new Set(offers.map(offer => offer.type))];
+  ad.promo_codes = extractPromoCodes(text);
+  ad.mentioned_cities = extractCityMentions(text, query);
+  ad.matched_keywords = extractMatchedKeywords(text, query.keyword);
+
+  return ad;
+}
@@ -0,0 +1,166 @@
+/**
+ * Sync of fingerprints already stored, and of when each query was last scraped, from the get-fingerprints endpoint
+ * Follows the endpoint's cursor page by page; the Bloom format keeps transfer and memory small for large tables
+ */
+
+import { BloomFilter, SerializedBloom } from './bloom.js';
+import { signatureHeaders } from './webhook.js';
+import { ActorInput, QueryFreshness, SearchQuery } from './types.js';
+
+// Share of new ads a Bloom filter may wrongly report as stored, and so skip
+const FALSE_POSITIVE_RATE = 0.001;
+
+/**
+ * What one query can have stored: ads are matched on keyword, location and, when the query sets one, country
+ */
+export interface FingerprintScope {
+  keyword: string;
+  location: string;
+  country?: string;
+}
+
+/**
+ * Responses of get-fingerprints, by mode. Paged modes return nextCursor until the last page.
+ */
+interface PagedResponse {
+  nextCursor?: string | null;
+}
+
+export interface FingerprintListResponse extends PagedResponse {
+  fingerprints: string[];
+  count: number;
+}
+
+export interface BloomResponse extends PagedResponse {
+  bloom: SerializedBloom;
+  // Fingerprints in this page, and in every page of the sync
+  count: number;
+  total: number;
+}
+
+// One stored ad, as the monitor baseline needs it
+export interface SnapshotRow {
+  ad_fingerprint: string;
+  advertiser_id: string | null;
+  advertiser_name: string | null;
+  is_active: boolean;
+  spend_lower: number | null;
+  spend_upper: number | null;
+  currency: string | null;
+  search_query: string;
+  search_location: string | null;
+  search_country: string | null;
+}
+
+export interface SnapshotResponse extends FingerprintListResponse {
+  ads: SnapshotRow[];
+}
+
+export interface FreshnessResponse {
+  queries: QueryFreshness[];
+}
+
+export type ExistingFingerprints =
+  | { format: 'list'; fingerprints: string[] }
+  | { format: 'bloom'; filter: BloomFilter };
+
+export function fingerprintScopes(queries: SearchQuery[]): FingerprintScope[] {
+  const scopes = new Map<string, FingerprintScope>();
+  for (const query of queries) {
+    // import-ads stores search_location as ''; scoped_fingerprints also matches rows stored before search_country existed
+    const scope = { keyword: query.keyword, location: query.location || '', country: query.country };
+    scopes.set(JSON.stringify(scope), scope);
+  }
+  return [...scopes.values()];
+}
+
+/**
+ * Signed POST to get-fingerprints
+ */
+export async function postFingerprints<T>(url: string, request: Record<string, unknown>, secret?: string): Promise<T> {
+  const body = JSON.stringify(request);
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...signatureHeaders(body, secret) },
+    body,
+  });
+  if (!response.ok) throw new Error('get-fingerprints returned HTTP ' + response.status);
+  return response.json() as Promise<T>;
+}
+
+/**
+ * Every page of a request, until the endpoint stops returning a cursor
+ */
+export async function* fingerprintPages<T extends PagedResponse>(url: string, request: Record<string, unknown>, secret?: string): AsyncGenerator<T> {
+  let cursor: string | null = null;
+  do {
+    const data: T = await postFingerprints<T>(url, { ...request, cursor }, secret);
+    yield data;
+    if (data.nextCursor && data.nextCursor === cursor) {
+      throw new Error('get-fingerprints returned the same cursor twice: ' + cursor);
+    }
+    cursor = data.nextCursor || null;
+  } while (cursor);
+}
+
+/**
+ * Fingerprints stored for these queries. A Bloom filter is requested in pages sharing the first page's size
+ * and OR'd together; endpoints without Bloom support answer with plain lists, which are used as they are.
+ */
+export async function fetchExistingFingerprints(
+  url: string,
+  queries: SearchQuery[],
+  input: Pick<ActorInput, 'fingerprintFormat' | 'fingerprintMaxAgeDays' | 'webhookSecret'>
+): Promise<ExistingFingerprints> {
+  const format = input.fingerprintFormat || 'bloom';
+  const request: Record<string, unknown> = {
+    queries: fingerprintScopes(queries),
+    maxAge: input.fingerprintMaxAgeDays || undefined,
+    format,
+    falsePositiveRate: format === 'bloom' ? FALSE_POSITIVE_RATE : undefined,
+  };
+
+  let filter: BloomFilter | null = null;
+  const fingerprints: string[] = [];
+
+  for await (const data of fingerprintPages<FingerprintListResponse | BloomResponse>(url, request, input.webhookSecret)) {
+    if ('bloom' in data) {
+      const page = BloomFilter.fromJSON(data.bloom);
+      if (filter) {
+        filter.merge(page);
+      } else {
+        filter = page;
+        request.bloom = { m: page.m, k: page.k };
+      }
+    } else {
+      fingerprints.push(...(data.fingerprints || []));
+    }
+  }
+
+  return filter ? { format: 'bloom', filter } : { format: 'list', fingerprints };
+}
+
+/**
+ * Freshness entries are keyed by keyword, location and country, as import-ads records them
+ */
+export function freshnessKey(query: Pick<SearchQuery, 'keyword' | 'location' | 'country'>): string {
+  return `${query.keyword}|${query.location || ''}|${query.country || ''}`;
+}
+
+/**
+ * When each of these queries was last scraped successfully, for those an earlier run has scraped
+ */
+export async function fetchQueryFreshness(url: string, queries: SearchQuery[], secret?: string): Promise<Record<string, QueryFreshness>> {
+  const data = await postFingerprints<FreshnessResponse>(url, { queries: fingerprintScopes(queries), mode: 'freshness' }, secret);
+  const freshness: Record<string, QueryFreshness> = {};
+  for (const entry of data.queries || []) {
+    freshness[freshnessKey(entry)] = entry;
+  }
+  return freshness;
+}
+
+export function isFresh(entry: QueryFreshness | undefined, minRefreshHours: number, now = Date.now()): boolean {
+  if (!entry) return false;
+  const age = now - new Date(entry.lastScrapedAt).getTime();
+  return age >= 0 && age < minRefreshHours * 60 * 60 * 1000;
+}
@@ -0,0 +1,144 @@
+/**
+ * File formats for exporting ads: NDJSON, CSV and Parquet
+ * All formats share one column list, so part files of every run line up for DuckDB and friends
+ */
+
+import { parquetWriteBuffer, BasicType } from 'hyparquet-writer';
+import { MetaAd } from './types.js';
+
+export type ExportFormat = 'ndjson' | 'csv' | 'parquet';
+
+type ColumnType = 'string' | 'number' | 'boolean' | 'timestamp' | 'json';
+
+export const EXPORT_COLUMNS: [keyof MetaAd, ColumnType][] = [
+  ['ad_id', 'string'],
+  ['ad_fingerprint', 'string'],
+  ['content_fingerprint', 'string'],
+  ['ad_archive_id', 'string'],
+  ['page_id', 'string'],
+  ['page_name', 'string'],
+  ['page_profile_picture_url', 'string'],
+  ['page_profile_uri', 'string'],
+  ['page_likes', 'number'],
+  ['page_instagram_handle', 'string'],
+  ['ad_text', 'string'],
+  ['ad_creative_bodies', 'json'],
+  ['ad_creative_link_titles', 'json'],
+  ['ad_creative_link_captions', 'json'],
+  ['ad_creative_link_descriptions', 'json'],
+  ['cta_text', 'string'],
+  ['cta_type', 'string'],
+  ['cta_category', 'string'],
+  ['landing_page_url', 'string'],
+  ['landing_domain', 'string'],
+  ['utm_params', 'json'],
+  ['phone_numbers', 'json'],
+  ['offers', 'json'],
+  ['offer_types', 'json'],
+  ['promo_codes', 'json'],
+  ['mentioned_cities', 'json'],
+  ['matched_keywords', 'json'],
+  ['relevance_score', 'number'],
+  ['relevance_signals', 'json'],
+  ['is_relevant', 'boolean'],
+  ['media_type', 'string'],
+  ['media_urls', 'json'],
+  ['thumbnail_url', 'string'],
+  ['video_url', 'string'],
+  ['archived_media', 'json'],
+  ['archived_thumbnail_url', 'string'],
+  ['archived_video_url', 'string'],
+  ['perceptual_hashes', 'json'],
+  ['creative_group_id', 'string'],
+  ['copy_group_id', 'string'],
+  ['ad_delivery_start_time', 'timestamp'],
+  ['ad_delivery_stop_time', 'timestamp'],
+  ['is_active', 'boolean'],
+  ['currency', 'string'],
+  ['spend_lower', 'number'],
+  ['spend_upper', 'number'],
+  ['impressions_lower', 'number'],
+  ['impressions_upper', 'number'],
+  ['platforms', 'json'],
+  ['publisher_platforms', 'json'],
+  ['target_locations', 'json'],
+  ['target_ages', 'string'],
+  ['target_gender', 'string'],
+  ['demographic_distribution', 'json'],
+  ['eu_total_reach', 'number'],
+  ['beneficiary_payers', 'json'],
+  ['search_query', 'string'],
+  ['search_location', 'string'],
+  ['search_city', 'string'],
+  ['search_state', 'string'],
+  ['search_country', 'string'],
+  ['category', 'string'],
+  ['scraped_at', 'timestamp'],
+  ['source_url', 'string'],
+];
+
+const PARQUET_TYPES: Record<ColumnType, BasicType> = {
+  string: 'STRING',
+  number: 'DOUBLE',
+  boolean: 'BOOLEAN',
+  timestamp: 'TIMESTAMP',
+  json: 'JSON',
+};
+
+export const CONTENT_TYPES: Record<ExportFormat, string> = {
+  ndjson: 'application/x-ndjson',
+  csv: 'text/csv; charset=utf-8',
+  parquet: 'application/vnd.apache.parquet',
+};
+
+function toDate(value: unknown): Date | null {
+  if (!value) return null;
+  const date = new Date(value as string);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function csvCell(value: unknown, type: ColumnType): string {
+  if (value === undefined || value === null) return '';
+  const text = type === 'json' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? '"' + text.replace(/"/g, '""') + '"' : text;
+}
+
+export function toNdjson(ads: MetaAd[]): string {
+  return ads.map(ad => JSON.stringify(ad)).join('\n') + '\n';
+}
+
+/**
+ * RFC 4180 CSV with a header row; list and object columns hold JSON
+ */
+export function toCsv(ads: MetaAd[]): string {
+  const lines = [EXPORT_COLUMNS.map(([name]) => name).join(',')];
+  for (const ad of ads) {
+    lines.push(EXPORT_COLUMNS.map(([name, type]) => csvCell(ad[name], type)).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
+
+export function toParquet(ads: MetaAd[]): Buffer {
+  const columnData = EXPORT_COLUMNS.map(([name, type]) => ({
+    name,
+    type: PARQUET_TYPES[type],
+    nullable: true,
+    data: ads.map(ad => {
+      const value = ad[name];
+      if (value === undefined || value === null) return null;
+      if (type === 'timestamp') return toDate(value);
+      if (type === 'number') return Number(value);
+      return value;
+    }),
+  }));
+
+  return Buffer.from(parquetWriteBuffer({ columnData }));
+}
+
+export function encodeAds(ads: MetaAd[], format: ExportFormat): Buffer | string {
+  switch (format) {
+    case 'ndjson': return toNdjson(ads);
+    case 'csv': return toCsv(ads);
+    case 'parquet': return toParquet(ads);
+  }
+}
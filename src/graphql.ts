@@ -0,0 +1,334 @@
+/**
+ * Network extraction for Meta Ads Library
+ * Parses the Ad Library's /api/graphql search responses into MetaAd records
+ */
+
+import { Page, Response } from 'playwright';
+import { log } from 'crawlee';
+import { MetaAd, SearchQuery } from './types.js';
+import { parseNumber, parseRange } from './parsers.js';
+
+export const GRAPHQL_PATH = '/api/graphql';
+
+interface CollatedCard {
+  body?: string | null;
+  title?: string | null;
+  caption?: string | null;
+  link_description?: string | null;
+  link_url?: string | null;
+  original_image_url?: string | null;
+  resized_image_url?: string | null;
+  video_hd_url?: string | null;
+  video_sd_url?: string | null;
+  video_preview_image_url?: string | null;
+}
+
+interface CollatedSnapshot extends Omit<CollatedCard, 'body'> {
+  body?: { text?: string | null } | string | null;
+  cta_text?: string | null;
+  cta_type?: string | null;
+  display_format?: string | null;
+  page_name?: string | null;
+  page_profile_uri?: string | null;
+  page_profile_picture_url?: string | null;
+  page_like_count?: number | null;
+  images?: CollatedCard[];
+  videos?: CollatedCard[];
+  cards?: CollatedCard[];
+}
+
+interface Bounds {
+  lower_bound?: string | number | null;
+  upper_bound?: string | number | null;
+}
+
+/**
+ * One entry of a search_results_connection edge's collated_results
+ */
+export interface CollatedAd {
+  ad_archive_id: string;
+  page_id?: string | null;
+  page_name?: string | null;
+  is_active?: boolean;
+  start_date?: number | null;
+  end_date?: number | null;
+  currency?: string | null;
+  spend?: Bounds | null;
+  impressions?: Bounds | null;
+  // Shown instead of bounds for low-reach ads, e.g. "<1K" or "10K-15K"
+  impressions_with_index?: { impressions_text?: string | null } | null;
+  publisher_platform?: string[] | null;
+  snapshot?: CollatedSnapshot | null;
+}
+
+/**
+ * Page-level info from the advertiser header of the view_all_page_id view
+ */
+export interface CollatedPageInfo {
+  page_id: string;
+  page_name?: string | null;
+  likes?: number | string | null;
+  page_like_count?: number | string | null;
+  ig_username?: string | null;
+  page_profile_uri?: string | null;
+}
+
+/**
+ * Split a raw graphql response body into its JSON documents.
+ * Responses may carry the `for (;;);` guard and several newline-delimited documents.
+ */
+export function parseGraphQLDocuments(body: string): unknown[] {
+  const documents: unknown[] = [];
+
+  for (const line of body.replace(/^for \(;;\);/, '').split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('{')) continue;
+
+    try {
+      documents.push(JSON.parse(trimmed));
+    } catch {
+      // Partial or non-JSON chunk
+    }
+  }
+
+  return documents;
+}
+
+/**
+ * Visit every object nested in a parsed JSON value
+ */
+export function walkJson(value: unknown, visit: (node: Record<string, unknown>) => void) {
+  if (Array.isArray(value)) {
+    for (const item of value) walkJson(item, visit);
+  } else if (value && typeof value === 'object') {
+    visit(value as Record<string, unknown>);
+    for (const child of Object.values(value)) walkJson(child, visit);
+  }
+}
+
+/**
+ * Parse a raw graphql response body into collated ad results
+ */
+export function parseGraphQLResponse(body: string): { ads: CollatedAd[]; pages: CollatedPageInfo[]; hasNextPage?: boolean } {
+  const ads: CollatedAd[] = [];
+  const pages: CollatedPageInfo[] = [];
+  let hasNextPage: boolean | undefined;
+
+  for (const document of parseGraphQLDocuments(body)) {
+    walkJson(document, (node) => {
+      if (Array.isArray(node.collated_results)) {
+        for (const result of node.collated_results as Partial<CollatedAd>[]) {
+          if (result && result.ad_archive_id) ads.push(result as CollatedAd);
+        }
+      }
+      const connection = node.search_results_connection as { page_info?: { has_next_page?: boolean } } | undefined;
+      if (connection?.page_info) {
+        hasNextPage = Boolean(connection.page_info.has_next_page);
+      }
+      if (node.page_id && !node.ad_archive_id && ('ig_username' in node || 'likes' in node || 'page_like_count' in node)) {
+        pages.push(node as unknown as CollatedPageInfo);
+      }
+    });
+  }
+
+  return { ads, pages, hasNextPage };
+}
+
+function toNumber(value: string | number | null | undefined): number | undefined {
+  if (value === null || value === undefined || value === '') return undefined;
+  const num = Number(value);
+  // Bounds sometimes arrive formatted, e.g. "1,000" or "10K"
+  return Number.isFinite(num) ? num : parseNumber(String(value));
+}
+
+function toIsoDate(unixSeconds: number | null | undefined): string | undefined {
+  return unixSeconds ? new Date(unixSeconds * 1000).toISOString() : undefined;
+}
+
+function unique(values: (string | null | undefined)[]): string[] {
+  return [...new Set(values.filter((v): v is string => !!v && v.trim().length > 0))];
+}
+
+/**
+ * Convert a collated graphql result into a full MetaAd record
+ */
+export function collatedAdToMetaAd(
+  raw: CollatedAd,
+  query: SearchQuery,
+  sourceUrl: string,
+  pageInfo?: CollatedPageInfo
+): MetaAd {
+  const snapshot = raw.snapshot || {};
+  const cards = snapshot.cards || [];
+  const images = snapshot.images || [];
+  const videos = snapshot.videos || [];
+
+  const bodyText = typeof snapshot.body === 'string' ? snapshot.body : snapshot.body?.text;
+  const bodies = unique([bodyText, ...cards.map(card => card.body)]);
+
+  const videoUrls = unique([...videos, ...cards].map(v => v.video_hd_url || v.video_sd_url));
+  const imageUrls = unique([...images, ...cards].map(i => i.original_image_url || i.resized_image_url));
+  const previewUrls = unique([...videos, ...cards].map(v => v.video_preview_image_url));
+
+  let mediaType: MetaAd['media_type'] = 'none';
+  const format = (snapshot.display_format || '').toUpperCase();
+  if (format === 'VIDEO' || (videoUrls.length > 0 && cards.length <= 1)) mediaType = 'video';
+  else if (format === 'CAROUSEL' || format === 'DCO' || cards.length > 1) mediaType = 'carousel';
+  else if (imageUrls.length > 0) mediaType = 'image';
+
+  const platforms = (raw.publisher_platform || []).map(p => p.toLowerCase());
+  const isActive = raw.is_active !== false;
+  const impressionsText = raw.impressions_with_index?.impressions_text;
+  const impressions = impressionsText ? parseRange(impressionsText) : undefined;
+
+  return {
+    ad_id: raw.ad_archive_id,
+    ad_fingerprint: '',
+    ad_archive_id: raw.ad_archive_id,
+    page_id: raw.page_id || '',
+    page_name: raw.page_name || snapshot.page_name || 'Unknown',
+    page_profile_picture_url: snapshot.page_profile_picture_url || undefined,
+    page_profile_uri: snapshot.page_profile_uri || pageInfo?.page_profile_uri || undefined,
+    page_likes: toNumber(snapshot.page_like_count) ?? toNumber(pageInfo?.likes ?? pageInfo?.page_like_count),
+    page_instagram_handle: pageInfo?.ig_username || undefined,
+    ad_text: bodies[0] || '',
+    ad_creative_bodies: bodies,
+    ad_creative_link_titles: unique([snapshot.title, ...cards.map(card => card.title)]),
+    ad_creative_link_captions: unique([snapshot.caption, ...cards.map(card => card.caption)]),
+    ad_creative_link_descriptions: unique([snapshot.link_description, ...cards.map(card => card.link_description)]),
+    cta_text: snapshot.cta_text || '',
+    cta_type: snapshot.cta_type || undefined,
+    landing_page_url: snapshot.link_url || cards.find(card => card.link_url)?.link_url || undefined,
+    media_type: mediaType,
+    media_urls: [...imageUrls, ...videoUrls],
+    thumbnail_url: previewUrls[0] || imageUrls[0],
+    video_url: videoUrls[0],
+    ad_delivery_start_time: toIsoDate(raw.start_date),
+    ad_delivery_stop_time: isActive ? undefined : toIsoDate(raw.end_date),
+    is_active: isActive,
+    currency: raw.currency || undefined,
+    spend_lower: toNumber(raw.spend?.lower_bound),
+    spend_upper: toNumber(raw.spend?.upper_bound),
+    impressions_lower: toNumber(raw.impressions?.lower_bound) ?? impressions?.lower,
+    impressions_upper: toNumber(raw.impressions?.upper_bound) ?? impressions?.upper,
+    platforms: platforms.length > 0 ? platforms : ['facebook'],
+    publisher_platforms: platforms,
+    search_query: query.keyword,
+    search_location: query.location || '',
+    scraped_at: new Date().toISOString(),
+    source_url: sourceUrl,
+  };
+}
+
+const collectors = new WeakMap<Page, GraphQLAdCollector>();
+
+/**
+ * Start collecting on a page, before it navigates so the initial document is captured too
+ */
+export function attachCollector(page: Page): GraphQLAdCollector {
+  const existing = collectors.get(page);
+  if (existing) return existing;
+
+  const collector = new GraphQLAdCollector(page);
+  collectors.set(page, collector);
+  collector.start();
+  return collector;
+}
+
+export function getCollector(page: Page): GraphQLAdCollector | undefined {
+  return collectors.get(page);
+}
+
+/**
+ * Listens to graphql search responses on a page and collects ads by archive ID.
+ * The first result page is server-rendered, so the search document's JSON script tags are read as well.
+ */
+export class GraphQLAdCollector {
+  private results = new Map<string, CollatedAd>();
+  private pages = new Map<string, CollatedPageInfo>();
+  private pending = new Set<Promise<void>>();
+  private exhausted = false;
+  private lastPage: string[] = [];
+
+  constructor(private page: Page) {}
+
+  private onResponse = (response: Response) => {
+    const isDocument = response.request().resourceType() === 'document';
+    const isGraphQL = response.url().includes(GRAPHQL_PATH) && response.request().method() === 'POST';
+    if (!isDocument && !isGraphQL) return;
+
+    const task = response.text()
+      .then(body => isDocument ? this.ingestHtml(body) : this.ingest(body))
+      .catch(error => log.debug('Could not read graphql response: ' + error))
+      .finally(() => this.pending.delete(task));
+    this.pending.add(task);
+  };
+
+  /**
+   * Add a raw response body (also used to replay recorded fixtures)
+   */
+  ingest(body: string) {
+    const { ads, pages, hasNextPage } = parseGraphQLResponse(body);
+    for (const page of pages) {
+      this.pages.set(String(page.page_id), { ...this.pages.get(String(page.page_id)), ...page });
+    }
+    for (const ad of ads) {
+      if (!this.results.has(ad.ad_archive_id)) {
+        this.results.set(ad.ad_archive_id, ad);
+      }
+    }
+    if (ads.length > 0) this.lastPage = ads.map(ad => ad.ad_archive_id);
+    if (hasNextPage === false) this.exhausted = true;
+  }
+
+  /**
+   * Add the JSON script payloads embedded in an HTML document
+   */
+  ingestHtml(html: string) {
+    const scriptPattern = /<script type="application\/json"[^>]*>([\s\S]*?)<\/script>/g;
+    let match: RegExpExecArray | null;
+    while ((match = scriptPattern.exec(html)) !== null) {
+      if (match[1].includes('collated_results')) {
+        this.ingest(match[1]);
+      }
+    }
+  }
+
+  start() {
+    this.page.on('response', this.onResponse);
+  }
+
+  async stop() {
+    this.page.off('response', this.onResponse);
+    collectors.delete(this.page);
+    await this.flush();
+  }
+
+  async flush() {
+    await Promise.allSettled([...this.pending]);
+  }
+
+  get size() {
+    return this.results.size;
+  }
+
+  /**
+   * True once a response reported there are no further result pages
+   */
+  get isExhausted() {
+    return this.exhausted;
+  }
+
+  /**
+   * Archive IDs of the most recent result page
+   */
+  get latestPage(): string[] {
+    return this.lastPage;
+  }
+
+  toAds(query: SearchQuery, sourceUrl: string): MetaAd[] {
+    return [...this.results.values()].map(raw =>
+      collatedAdToMetaAd(raw, query, sourceUrl, raw.page_id ? this.pages.get(String(raw.page_id)) : undefined)
+    );
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Extraction health telemetry
+ * Per-query field fill rates and skipped cards, checked against minimum fill rates so markup breakage shows up on the first run
+ */
+
+import { ExtractionSummary, FillRateViolation, MetaAd, QueryHealth, ScrapeResult, SearchQuery } from './types.js';
+
+// Fields whose fill rate is always tracked; thresholds may name others
+export const HEALTH_FIELDS: (keyof MetaAd)[] = [
+  'ad_archive_id',
+  'page_id',
+  'page_name',
+  'ad_text',
+  'media_urls',
+  'landing_page_url',
+  'cta_type',
+  'ad_delivery_start_time',
+  'spend_lower',
+  'impressions_lower',
+];
+
+export function isFilled(ad: MetaAd, field: keyof MetaAd): boolean {
+  const value = ad[field];
+  if (value === undefined || value === null || value === '') return false;
+  if (Array.isArray(value)) return value.length > 0;
+  if (field === 'page_name') return value !== 'Unknown';
+  return true;
+}
+
+/**
+ * Share of ads (0-1) with each field filled
+ */
+export function fillRates(ads: MetaAd[], fields: (keyof MetaAd)[] = HEALTH_FIELDS): Record<string, number> {
+  const rates: Record<string, number> = {};
+  for (const field of fields) {
+    rates[field] = ads.length > 0 ? ads.filter(ad => isFilled(ad, field)).length / ads.length : 0;
+  }
+  return rates;
+}
+
+function toRates(filled: Record<string, number>, ads: number): Record<string, number> {
+  const rates: Record<string, number> = {};
+  for (const [field, count] of Object.entries(filled)) {
+    rates[field] = ads > 0 ? count / ads : 0;
+  }
+  return rates;
+}
+
+export class ExtractionHealth {
+  private queries: QueryHealth[] = [];
+  private fields: (keyof MetaAd)[];
+
+  constructor(extraFields: string[] = []) {
+    this.fields = [...new Set([...HEALTH_FIELDS, ...extraFields as (keyof MetaAd)[]])];
+  }
+
+  record(query: SearchQuery, result: ScrapeResult): QueryHealth {
+    const filled: Record<string, number> = {};
+    for (const field of this.fields) {
+      filled[field] = result.ads.filter(ad => isFilled(ad, field)).length;
+    }
+
+    const health: QueryHealth = {
+      keyword: query.keyword,
+      location: query.location || '',
+      source: result.source,
+      ads: result.ads.length,
+      skippedCards: result.skippedCards,
+      filled,
+    };
+    this.queries.push(health);
+    return health;
+  }
+
+  get summary(): ExtractionSummary {
+    // Empty searches say nothing about extraction, so they don't dilute the rates
+    const withResults = this.queries.filter(query => query.source !== 'empty');
+    const ads = withResults.reduce((sum, query) => sum + query.ads, 0);
+
+    const filled: Record<string, number> = {};
+    for (const field of this.fields) {
+      filled[field] = withResults.reduce((sum, query) => sum + (query.filled[field] || 0), 0);
+    }
+
+    const bySource: Record<string, number> = {};
+    for (const query of this.queries) {
+      bySource[query.source] = (bySource[query.source] || 0) + 1;
+    }
+
+    return {
+      queries: this.queries.length,
+      emptyQueries: this.queries.length - withResults.length,
+      ads,
+      skippedCards: this.queries.reduce((sum, query) => sum + query.skippedCards, 0),
+      bySource,
+      fillRates: toRates(filled, ads),
+      byQuery: this.queries.map(({ filled, ...query }) => ({ ...query, fillRates: toRates(filled, query.ads) })),
+    };
+  }
+
+  toState(): QueryHealth[] {
+    return this.queries;
+  }
+
+  restore(state: QueryHealth[]) {
+    this.queries = state;
+  }
+}
+
+/**
+ * Fields filled on fewer ads than their minimum percent. Runs where every search was empty aren't judged.
+ */
+export function checkFillRates(summary: ExtractionSummary, minFillRates: Record<string, number> = {}): FillRateViolation[] {
+  if (summary.queries === summary.emptyQueries) return [];
+
+  const violations: FillRateViolation[] = [];
+  for (const [field, min] of Object.entries(minFillRates)) {
+    const rate = Math.round((summary.fillRates[field] || 0) * 1000) / 10;
+    if (rate < min) violations.push({ field, rate, min });
+  }
+  return violations;
+}
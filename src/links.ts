@@ -0,0 +1,183 @@
+/**
+ * Landing page and CTA analysis
+ * Unwraps Facebook link redirects, splits off UTM parameters and normalizes CTA types
+ */
+
+import { MetaAd } from './types.js';
+
+export type CtaCategory = 'call' | 'message' | 'booking' | 'lead' | 'shop' | 'app' | 'website' | 'other';
+
+const REDIRECT_HOSTS = new Set(['l.facebook.com', 'lm.facebook.com', 'l.messenger.com', 'l.instagram.com']);
+
+// Click IDs and tracking params that don't change which page is shown
+const TRACKING_PARAMS = /^(utm_[a-z_]+|fbclid|gclid|msclkid|_ga|mc_[a-z]+)$/i;
+
+// Visible CTA labels to Ad Library cta_type values
+const CTA_LABELS: Record<string, string> = {
+  'call now': 'CALL_NOW',
+  'learn more': 'LEARN_MORE',
+  'shop now': 'SHOP_NOW',
+  'book now': 'BOOK_NOW',
+  'book travel': 'BOOK_TRAVEL',
+  'sign up': 'SIGN_UP',
+  'contact us': 'CONTACT_US',
+  'get quote': 'GET_QUOTE',
+  'get offer': 'GET_OFFER',
+  'get directions': 'GET_DIRECTIONS',
+  'apply now': 'APPLY_NOW',
+  'order now': 'ORDER_NOW',
+  'subscribe': 'SUBSCRIBE',
+  'download': 'DOWNLOAD',
+  'install now': 'INSTALL_MOBILE_APP',
+  'send message': 'MESSAGE_PAGE',
+  'send whatsapp message': 'WHATSAPP_MESSAGE',
+  'send whatsapp': 'WHATSAPP_MESSAGE',
+  'watch more': 'WATCH_MORE',
+  'see menu': 'SEE_MENU',
+  'request time': 'REQUEST_TIME',
+  'get showtimes': 'GET_SHOWTIMES',
+  'donate now': 'DONATE_NOW',
+};
+
+const CTA_CATEGORIES: Record<string, CtaCategory> = {
+  CALL_NOW: 'call',
+  CALL: 'call',
+  MESSAGE_PAGE: 'message',
+  WHATSAPP_MESSAGE: 'message',
+  SEND_MESSAGE: 'message',
+  INSTAGRAM_MESSAGE: 'message',
+  BOOK_NOW: 'booking',
+  BOOK_TRAVEL: 'booking',
+  REQUEST_TIME: 'booking',
+  GET_SHOWTIMES: 'booking',
+  SIGN_UP: 'lead',
+  CONTACT_US: 'lead',
+  GET_QUOTE: 'lead',
+  APPLY_NOW: 'lead',
+  SUBSCRIBE: 'lead',
+  GET_OFFER: 'lead',
+  SHOP_NOW: 'shop',
+  ORDER_NOW: 'shop',
+  BUY_NOW: 'shop',
+  SEE_MENU: 'shop',
+  INSTALL_MOBILE_APP: 'app',
+  USE_APP: 'app',
+  DOWNLOAD: 'app',
+  PLAY_GAME: 'app',
+  LEARN_MORE: 'website',
+  WATCH_MORE: 'website',
+  GET_DIRECTIONS: 'website',
+  NO_BUTTON: 'other',
+};
+
+/**
+ * Absolute form of a link: paths are Facebook's own (e.g. /l.php?u=...), other scheme-less values are bare domains
+ */
+function toAbsoluteUrl(url: string): string {
+  const value = url.trim();
+  // A scheme, but not host:port
+  if (/^[a-z][a-z0-9+.-]*:(?!\d)/i.test(value)) return value;
+  if (value.startsWith('//')) return 'https:' + value;
+  if (value.startsWith('/')) return 'https://www.facebook.com' + value;
+  return 'https://' + value;
+}
+
+/**
+ * Follow l.facebook.com style redirects to the advertiser's own URL
+ */
+export function unwrapRedirect(url: string): string {
+  let current = url;
+
+  for (let hops = 0; hops < 3; hops++) {
+    let parsed: URL;
+    try {
+      parsed = new URL(toAbsoluteUrl(current));
+    } catch {
+      return current;
+    }
+
+    const target = REDIRECT_HOSTS.has(parsed.hostname) ? parsed.searchParams.get('u') : null;
+    if (!target) return parsed.href;
+    current = target;
+  }
+
+  return current;
+}
+
+/**
+ * Canonical landing page: redirect unwrapped, tracking parameters and fragment removed
+ */
+export function analyzeLandingPage(rawUrl: string): {
+  url: string;
+  domain?: string;
+  utm: Record<string, string>;
+} {
+  const unwrapped = unwrapRedirect(rawUrl);
+  const utm: Record<string, string> = {};
+
+  let parsed: URL;
+  try {
+    parsed = new URL(unwrapped);
+  } catch {
+    return { url: unwrapped, utm };
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return { url: parsed.href, utm };
+  }
+
+  for (const [key, value] of [...parsed.searchParams]) {
+    if (!TRACKING_PARAMS.test(key)) continue;
+    if (key.toLowerCase().startsWith('utm_')) utm[key.toLowerCase()] = value;
+    parsed.searchParams.delete(key);
+  }
+  parsed.hash = '';
+
+  return {
+    url: parsed.href,
+    domain: parsed.hostname.replace(/^www\./, '').toLowerCase(),
+    utm,
+  };
+}
+
+/**
+ * Ad Library cta_type for an ad. Phone, WhatsApp and Messenger destinations win over the label.
+ */
+export function normalizeCtaType(ctaType: string | undefined, ctaText: string | undefined, url: string | undefined): string | undefined {
+  if (url) {
+    if (url.startsWith('tel:')) return 'CALL_NOW';
+    if (/^https?:\/\/(wa\.me|api\.whatsapp\.com)\//i.test(url)) return 'WHATSAPP_MESSAGE';
+    if (/^https?:\/\/(m\.me|(www\.)?messenger\.com)\//i.test(url)) return 'MESSAGE_PAGE';
+  }
+
+  if (ctaType) return ctaType.trim().toUpperCase().replace(/[\s-]+/g, '_');
+
+  const label = (ctaText || '').trim().toLowerCase();
+  return CTA_LABELS[label];
+}
+
+export function ctaCategory(ctaType: string | undefined, domain: string | undefined): CtaCategory | undefined {
+  if (ctaType && CTA_CATEGORIES[ctaType]) return CTA_CATEGORIES[ctaType];
+  if (ctaType) return 'other';
+  return domain ? 'website' : undefined;
+}
+
+/**
+ * Replace the raw link on an ad with its canonical landing page, domain, UTM parameters and CTA type
+ */
+export function applyLinkAnalysis(ad: MetaAd): MetaAd {
+  let url: string | undefined;
+
+  if (ad.landing_page_url) {
+    const landing = analyzeLandingPage(ad.landing_page_url);
+    url = landing.url;
+    ad.landing_page_url = landing.url;
+    ad.landing_domain = landing.domain;
+    if (Object.keys(landing.utm).length > 0) ad.utm_params = landing.utm;
+  }
+
+  ad.cta_type = normalizeCtaType(ad.cta_type, ad.cta_text, url);
+  ad.cta_category = ctaCategory(ad.cta_type, ad.landing_domain);
+
+  return ad;
+}
@@ -1,7 +1,33 @@
-import { Actor } from 'apify';
-import { PlaywrightCrawler, log } from 'crawlee';
-import { scrapeQuery, deduplicateAds, DeduplicationTracker } from './scraper.js';
-import { ActorInput, MetaAd, WebhookPayload } from './types.js';
+import { Actor, ProxyInfo as ApifyProxyInfo } from 'apify';
+import { PlaywrightCrawler, ProxyInfo, log } from 'crawlee';
+import { scrapeQuery, buildSearchUrl, DeduplicationTracker } from './scraper.js';
+import { resolveSelectors } from './selectors.js';
+import { scrapeAdDetails } from './details.js';
+import { attachCollector } from './graphql.js';
+import { expandQueries, loadQueryFile, sortByPriority } from './queries.js';
+import { BlockTracker, BlockedError, PageState } from './blocking.js';
+import { resolveProfile } from './profiles.js';
+import { MediaArchiver, openMediaStore } from './media.js';
+import { CreativeGrouper } from './creatives.js';
+import { applyRelevanceFilter } from './relevance.js';
+import { ChangeMonitor, applyAlertRules, fetchEndpointBaseline, loadStoredBaseline, sendAlert } from './monitor.js';
+import { ExtractionHealth, checkFillRates } from './health.js';
+import { loadCrawlState, saveCrawlState, persistOnEvents } from './state.js';
+import { WebhookClient, signatureHeaders } from './webhook.js';
+import { OutputSink, WebhookSink, createSinks } from './sinks.js';
+import { fetchExistingFingerprints, fetchQueryFreshness, freshnessKey, isFresh } from './fingerprints.js';
+import { BloomFilter, SerializedBloom } from './bloom.js';
+import { ActorInput, CardSelectors, ChangeReport, CrawlState, QueryFreshness, SearchQuery, SnapshotAd } from './types.js';
+
+// Back off above this recent block rate, scale back up below the recovery rate
+const BLOCK_RATE_BACKOFF = 0.3;
+const BLOCK_RATE_RECOVER = 0.05;
+
+// Share of the request handler timeout ad details may use; media, grouping and pushing need the rest
+const DETAILS_TIME_SHARE = 0.6;
+
+// Residential bandwidth is billed; creatives are read from attributes and payloads, not downloaded
+const BLOCKED_RESOURCE_TYPES = ['image', 'font', 'media'];
 
 const DEFAULT_INPUT: Partial<ActorInput> = {
   country: 'US',
@@ -9,8 +35,23 @@ const DEFAULT_INPUT: Partial<ActorInput> = {
   adStatus: 'active',
   adType: 'all',
   mediaType: 'all',
+  sortBy: 'relevancy',
   scrapeAdDetails: false,
+  performanceProfile: 'aggressive',
   webhookBatchSize: 100,
+  webhookMaxRetries: 5,
+  replayDeadLetters: false,
+  fingerprintFormat: 'bloom',
+  freshQueryAction: 'skip',
+  archiveMedia: false,
+  mediaStorage: 'kv',
+  groupCreatives: false,
+  creativeHashDistance: 6,
+  copySimilarityPercent: 70,
+  relevanceThreshold: 0,
+  relevanceAction: 'drop',
+  monitorMode: false,
+  healthAction: 'alert',
 };
 
 async function main() {
@@ -19,21 +60,105 @@ async function main() {
   const rawInput = await Actor.getInput<Partial<ActorInput>>();
   const input: ActorInput = { ...DEFAULT_INPUT, ...rawInput } as ActorInput;
   
+  const webhook = input.webhookUrl
+    ? new WebhookClient(input.webhookUrl, input.webhookSecret, input.webhookMaxRetries)
+    : null;
+  
+  if (webhook && input.replayDeadLetters) {
+    const { replayed, stillFailing } = await webhook.replayDeadLetters();
+    log.info('Dead-letter replay: ' + replayed + ' delivered, ' + stillFailing + ' still failing');
+  }
+  
+  if (input.queryFileUrl || input.queryFileKey) {
+    try {
+      const fileQueries = await loadQueryFile(input);
+      input.searchQueries = [...(input.searchQueries || []), ...fileQueries];
+      log.info('Loaded ' + fileQueries.length + ' queries from query file');
+    } catch (error) {
+      log.error(String(error instanceof Error ? error.message : error));
+      await Actor.exit({ exitCode: 1 });
+      return;
+    }
+  }
+  
   if (!input.searchQueries || input.searchQueries.length === 0) {
+    if (input.replayDeadLetters) {
+      await Actor.exit();
+      return;
+    }
     log.error('No search queries provided!');
     await Actor.exit({ exitCode: 1 });
     return;
   }
   
+  let selectors: CardSelectors;
+  try {
+    selectors = resolveSelectors(input.selectors);
+  } catch (error) {
+    log.error(String(error instanceof Error ? error.message : error));
+    await Actor.exit({ exitCode: 1 });
+    return;
+  }
+  
+  let mediaArchiver: MediaArchiver | null = null;
+  if (input.archiveMedia) {
+    try {
+      mediaArchiver = new MediaArchiver(await openMediaStore(input), input.mediaMaxBytes);
+    } catch (error) {
+      log.error(String(error instanceof Error ? error.message : error));
+      await Actor.exit({ exitCode: 1 });
+      return;
+    }
+  }
+  
+  // Where ads go besides the dataset: webhook, Postgres, file exports
+  let sinks: OutputSink[];
+  try {
+    sinks = createSinks(input, webhook);
+  } catch (error) {
+    log.error(String(error instanceof Error ? error.message : error));
+    await Actor.exit({ exitCode: 1 });
+    return;
+  }
+  const webhookSink = sinks.find((sink): sink is WebhookSink => sink instanceof WebhookSink);
+  
+  // Page queries may omit the keyword; label them by page ID
+  input.searchQueries = input.searchQueries
+    .filter((query, i) => {
+      if (query.keyword || query.pageId) return true;
+      log.warning('Skipping search query ' + (i + 1) + ', it has neither keyword nor pageId: ' + JSON.stringify(query));
+      return false;
+    })
+    .map(query => query.keyword ? query : { ...query, keyword: 'page:' + query.pageId });
+  
+  // One query per keyword × location, with per-query country overrides
+  input.searchQueries = expandQueries(input.searchQueries, input.country, input.regions);
+  
+  const profile = resolveProfile(input);
+  
   log.info('='.repeat(60));
-  log.info('META ADS LIBRARY SCRAPER - AGGRESSIVE MODE');
+  log.info('META ADS LIBRARY SCRAPER - ' + (input.performanceProfile || 'aggressive').toUpperCase() + ' MODE');
   log.info('='.repeat(60));
   log.info('Queries: ' + input.searchQueries.length);
   log.info('Country: ' + input.country);
+  log.info('Filters: status=' + input.adStatus + ' type=' + input.adType + ' media=' + input.mediaType + ' sort=' + input.sortBy);
   log.info('Max ads per query: ' + input.maxAdsPerQuery);
-  log.info('Concurrency: 8 browsers');
-  log.info('Rate: 120 requests/minute');
+  log.info('Concurrency: ' + profile.maxConcurrency + ' browsers (adaptive)');
+  log.info('Rate: ' + profile.maxRequestsPerMinute + ' requests/minute');
+  log.info('Resource blocking: ' + (profile.blockResources ? 'YES' : 'NO'));
+  log.info('Ad details: ' + (input.scrapeAdDetails ? 'YES' : 'NO'));
+  log.info('Media archive: ' + (input.archiveMedia ? input.mediaStorage : 'NO'));
+  log.info('Creative grouping: ' + (input.groupCreatives ? 'YES' : 'NO'));
+  log.info('Monitor mode: ' + (input.monitorMode ? 'YES' : 'NO') + (input.alertWebhookUrl ? ' (alerts on)' : ''));
+  log.info('Relevance filter: ' + (input.relevanceThreshold ? input.relevanceAction + ' below ' + input.relevanceThreshold + '%' : 'NO'));
+  log.info('Selector overrides: ' + (input.selectors && Object.keys(input.selectors).length > 0 ? Object.keys(input.selectors).join(', ') : 'NO'));
+  log.info('Fill rate thresholds: ' + (input.minFillRates && Object.keys(input.minFillRates).length > 0 ? Object.keys(input.minFillRates).length + ' fields (' + input.healthAction + ')' : 'NO'));
   log.info('Webhook: ' + (input.webhookUrl || 'Not configured'));
+  log.info('Webhook signing: ' + (input.webhookSecret ? 'YES' : 'NO'));
+  log.info('Fresh queries: ' + (input.minRefreshHours ? input.freshQueryAction + ' if scraped in the last ' + input.minRefreshHours + 'h' : 'NO'));
+  log.info('Existing fingerprints: ' + (input.fingerprintsUrl ? input.fingerprintFormat + (input.fingerprintMaxAgeDays ? ', seen in the last ' + input.fingerprintMaxAgeDays + ' days' : '') : 'NO'));
+  log.info('Postgres: ' + (input.postgresUrl ? input.postgresTable || 'ads' : 'NO'));
+  log.info('File exports: ' + (input.exportFormats?.length ? input.exportFormats.join(', ') + ' to ' + (input.exportPrefix || 'meta-ads') + '/' : 'NO'));
   log.info('Proxy input: ' + JSON.stringify(input.proxyConfiguration));
   
   const proxyConfiguration = await Actor.createProxyConfiguration(
@@ -47,65 +172,159 @@ async function main() {
   log.info('Proxy active: ' + (proxyConfiguration ? 'YES' : 'NO'));
   log.info('='.repeat(60));
   
-  const allAds: MetaAd[] = [];
-  let totalProcessed = 0;
-  let batchNumber = 0;
-  let queriesCompleted = 0;
-  const startTime = Date.now();
+  // Restore progress from an earlier attempt of this run (migration, abort, restart)
+  const savedState = await loadCrawlState();
+  
+  const runFingerprints = new Set<string>(savedState?.runFingerprints || []);
+  const completedQueryKeys = new Set<string>(savedState?.completedQueryKeys || []);
+  let totalProcessed = savedState?.totalProcessed || 0;
+  let queriesCompleted = savedState?.queriesCompleted || 0;
+  let relevanceDropped = savedState?.relevanceDropped || 0;
+  const startTime = savedState?.startedAt || Date.now();
+  
+  // Queries whose full result set was seen, so missing ads can be marked as stopped
+  const reconcilableQueries: SearchQuery[] = savedState?.reconcilableQueries || [];
   
   const dedupeTracker = new DeduplicationTracker();
+  const relevanceThreshold = (input.relevanceThreshold || 0) / 100;
+  const extractionHealth = new ExtractionHealth(Object.keys(input.minFillRates || {}));
+  const creativeGrouper = input.groupCreatives
+    ? new CreativeGrouper(input.creativeHashDistance, (input.copySimilarityPercent || 70) / 100)
+    : null;
   
-  if (input.webhookUrl) {
-    try {
-      const checkUrl = input.webhookUrl.replace('/import-ads', '/get-fingerprints');
-      const response = await fetch(checkUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ queries: input.searchQueries.map(q => q.keyword) }),
-      });
-      
-      if (response.ok) {
-        const data = await response.json();
-        if (data.fingerprints?.length > 0) {
-          dedupeTracker.loadExisting(data.fingerprints);
-          log.info('Loaded ' + data.fingerprints.length + ' existing fingerprints');
+  if (savedState) {
+    dedupeTracker.restore(savedState.dedupe);
+    if (savedState.extraction) extractionHealth.restore(savedState.extraction);
+    if (savedState.webhook) webhook?.restore(savedState.webhook);
+    if (webhookSink) webhookSink.batchNumber = savedState.batchNumber || 0;
+    if (savedState.media) mediaArchiver?.restore(savedState.media);
+    if (savedState.creativeGroups) creativeGrouper?.restore(savedState.creativeGroups);
+    log.info('Resuming run: ' + completedQueryKeys.size + ' queries done, ' + totalProcessed + ' ads, webhook batch ' + (savedState.batchNumber || 0));
+  }
+  
+  const getCrawlState = (): CrawlState => ({
+    startedAt: startTime,
+    completedQueryKeys: [...completedQueryKeys],
+    reconcilableQueries,
+    runFingerprints: [...runFingerprints],
+    totalProcessed,
+    queriesCompleted,
+    batchNumber: webhookSink?.batchNumber || 0,
+    relevanceDropped,
+    monitor: monitor?.toState(),
+    dedupe: dedupeTracker.toState(),
+    webhook: webhook?.stats,
+    media: mediaArchiver?.stats,
+    creativeGroups: creativeGrouper?.toState(),
+    extraction: extractionHealth.toState(),
+  });
+  
+  const fingerprintsUrl = input.fingerprintsUrl;
+  
+  // Monitor baseline: the stored ads from get-fingerprints, else the previous monitor run.
+  // Kept in the run's store so a resumed run doesn't diff against ads it imported itself.
+  let monitor: ChangeMonitor | null = null;
+  if (input.monitorMode) {
+    let pinned = await Actor.getValue<{ source: ChangeReport['baselineSource']; baseline: Record<string, SnapshotAd[]> }>('MONITOR_BASELINE');
+    
+    if (!pinned && fingerprintsUrl) {
+      try {
+        pinned = { source: 'endpoint', baseline: await fetchEndpointBaseline(fingerprintsUrl, input.searchQueries, input.webhookSecret) };
+      } catch (error) {
+        log.warning('Could not load monitor baseline from get-fingerprints: ' + error);
+      }
+    }
+    if (!pinned) {
+      const stored = await loadStoredBaseline();
+      pinned = stored ? { source: 'key-value-store', baseline: stored } : { source: 'none', baseline: {} };
+    }
+    await Actor.setValue('MONITOR_BASELINE', pinned);
+    
+    monitor = new ChangeMonitor(pinned.baseline, pinned.source);
+    if (savedState?.monitor) monitor.restore(savedState.monitor);
+    log.info('Monitor baseline: ' + Object.keys(pinned.baseline).length + ' queries from ' + pinned.source);
+  }
+  
+  persistOnEvents(getCrawlState);
+  
+  // Ads stored by earlier runs are skipped as duplicates. They are kept out of the dedupe state and
+  // pinned in the run's store instead, so a resumed run uses the same list or Bloom filter.
+  if (fingerprintsUrl) {
+    const pinned = savedState ? await Actor.getValue<SerializedBloom | string[]>('EXISTING_FINGERPRINTS') : null;
+    if (Array.isArray(pinned)) {
+      dedupeTracker.loadExisting(pinned);
+    } else if (pinned) {
+      dedupeTracker.loadExistingFilter(BloomFilter.fromJSON(pinned));
+    } else if (!savedState) {
+      try {
+        const existing = await fetchExistingFingerprints(fingerprintsUrl, input.searchQueries, input);
+        if (existing.format === 'bloom') {
+          const { filter } = existing;
+          dedupeTracker.loadExistingFilter(filter);
+          await Actor.setValue('EXISTING_FINGERPRINTS', filter.toJSON());
+          log.info('Loaded ' + filter.count + ' existing fingerprints as a ' + Math.ceil(filter.m / 8 / 1024) + 'KB Bloom filter (~' + (filter.falsePositiveRate * 100).toFixed(2) + '% false positives)');
+        } else {
+          dedupeTracker.loadExisting(existing.fingerprints);
+          await Actor.setValue('EXISTING_FINGERPRINTS', existing.fingerprints);
+          log.info('Loaded ' + existing.fingerprints.length + ' existing fingerprints');
         }
+      } catch (error) {
+        log.warning('Could not load existing fingerprints, ads stored by earlier runs are not skipped: ' + (error instanceof Error ? error.message : error));
       }
-    } catch (e) {
-      log.debug('Could not load existing fingerprints');
     }
   }
   
-  async function sendToWebhook(ads: MetaAd[], query: typeof input.searchQueries[0], isFinal = false) {
-    if (!input.webhookUrl || ads.length === 0) return;
+  // Queries an earlier run scraped within minRefreshHours. Pinned like the monitor baseline,
+  // so a resumed run doesn't count its own scrapes as fresh.
+  const freshQueryKeys = new Set<string>();
+  if (input.minRefreshHours && fingerprintsUrl) {
+    let freshness = await Actor.getValue<Record<string, QueryFreshness>>('QUERY_FRESHNESS');
+    if (!freshness) {
+      try {
+        freshness = await fetchQueryFreshness(fingerprintsUrl, input.searchQueries, input.webhookSecret);
+      } catch (error) {
+        log.warning('Could not load query freshness, scraping every query in full: ' + (error instanceof Error ? error.message : error));
+        freshness = {};
+      }
+      await Actor.setValue('QUERY_FRESHNESS', freshness);
+    }
     
-    batchNumber++;
-    const payload: WebhookPayload = {
-      actorRunId: Actor.getEnv().actorRunId || 'unknown',
-      batchNumber,
-      ads,
-      query,
-      timestamp: new Date().toISOString(),
-      isFinal,
-    };
+    for (const query of input.searchQueries) {
+      if (isFresh(freshness[freshnessKey(query)], input.minRefreshHours)) freshQueryKeys.add(freshnessKey(query));
+    }
+    log.info(freshQueryKeys.size + ' of ' + input.searchQueries.length + ' queries were scraped in the last ' + input.minRefreshHours + 'h');
+  } else if (input.minRefreshHours) {
+    log.warning('minRefreshHours needs fingerprintsUrl, scraping every query in full');
+  }
+  const skipFresh = input.freshQueryAction !== 'incremental';
+  
+  const blockTracker = new BlockTracker();
+  
+  // Apify Proxy adds its groups to crawlee's proxy info
+  function proxyGroupOf(proxyInfo?: ProxyInfo & Partial<Pick<ApifyProxyInfo, 'groups'>>): string {
+    const groups = proxyInfo?.groups;
+    return groups && groups.length > 0 ? groups.join('+') : proxyInfo?.hostname || 'NONE';
+  }
+  
+  /**
+   * Record a page outcome and halve concurrency when blocks pile up, growing it back once they stop
+   */
+  function recordPageState(group: string, state: PageState) {
+    blockTracker.record(group, state);
     
-    try {
-      const response = await fetch(input.webhookUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-Actor-Run-Id': payload.actorRunId,
-          'X-Batch-Number': String(batchNumber),
-          'X-Is-Final': String(isFinal),
-        },
-        body: JSON.stringify(payload),
-      });
-      
-      if (!response.ok) {
-        log.warning('Webhook failed: ' + response.status);
-      }
-    } catch (error) {
-      log.error('Webhook error: ' + error);
+    const pool = crawler.autoscaledPool;
+    const rate = blockTracker.recentBlockRate;
+    if (!pool || rate === null) return;
+    
+    if (rate > BLOCK_RATE_BACKOFF && pool.maxConcurrency > 1) {
+      pool.maxConcurrency = Math.max(1, Math.floor(pool.maxConcurrency / 2));
+      pool.desiredConcurrency = Math.min(pool.desiredConcurrency, pool.maxConcurrency);
+      blockTracker.resetWindow();
+      log.warning('Block rate ' + (rate * 100).toFixed(0) + '%, concurrency lowered to ' + pool.maxConcurrency);
+    } else if (rate < BLOCK_RATE_RECOVER && pool.maxConcurrency < profile.maxConcurrency) {
+      pool.maxConcurrency++;
+      blockTracker.resetWindow();
+      log.info('Block rate ' + (rate * 100).toFixed(0) + '%, concurrency raised to ' + pool.maxConcurrency);
     }
   }
   
@@ -117,13 +336,17 @@ async function main() {
     log.info('Progress: ' + queriesCompleted + '/' + input.searchQueries.length + ' queries | ' + totalProcessed + ' ads | ' + adsPerMin.toFixed(0) + ' ads/min');
   }
   
+  const requestHandlerTimeoutSecs = input.scrapeAdDetails
+    ? Math.max(profile.requestHandlerTimeoutSecs, 900)
+    : profile.requestHandlerTimeoutSecs;
+  
   const crawler = new PlaywrightCrawler({
     proxyConfiguration,
-    maxConcurrency: 8,
-    maxRequestsPerMinute: 120,
-    requestHandlerTimeoutSecs: 180,
-    navigationTimeoutSecs: 45,
-    maxRequestRetries: 3,
+    maxConcurrency: profile.maxConcurrency,
+    maxRequestsPerMinute: profile.maxRequestsPerMinute,
+    requestHandlerTimeoutSecs,
+    navigationTimeoutSecs: profile.navigationTimeoutSecs,
+    maxRequestRetries: profile.maxRequestRetries,
     
     launchContext: {
       launchOptions: {
@@ -139,8 +362,8 @@ async function main() {
     
     browserPoolOptions: {
       useFingerprints: true,
-      maxOpenPagesPerBrowser: 2,
-      retireBrowserAfterPageCount: 10,
+      maxOpenPagesPerBrowser: profile.maxOpenPagesPerBrowser,
+      retireBrowserAfterPageCount: profile.retireBrowserAfterPageCount,
     },
     
     preNavigationHooks: [
@@ -154,54 +377,117 @@ async function main() {
         });
         await page.setViewportSize({ width: 1366, height: 768 });
         gotoOptions.waitUntil = 'domcontentloaded';
-        gotoOptions.timeout = 45000;
+        gotoOptions.timeout = profile.navigationTimeoutSecs * 1000;
+        
+        if (profile.blockResources) {
+          await page.route('**/*', (route) => {
+            const type = route.request().resourceType();
+            return BLOCKED_RESOURCE_TYPES.includes(type) ? route.abort() : route.continue();
+          });
+        }
+        
+        // Listen before navigating so the server-rendered first page of results is captured
+        attachCollector(page);
       },
     ],
     
-    async requestHandler({ page, request, proxyInfo }) {
+    async requestHandler({ page, request, proxyInfo, session }) {
       const query = request.userData.query as typeof input.searchQueries[0];
+      const proxyGroup = proxyGroupOf(proxyInfo);
+      const detailsDeadline = Date.now() + requestHandlerTimeoutSecs * 1000 * DETAILS_TIME_SHARE;
       
       log.info('Scraping: "' + query.keyword + '" via proxy: ' + (proxyInfo?.hostname || 'NONE'));
       
       try {
-        const rawAds = await scrapeQuery(
-          page,
-          query,
-          input.country,
-          input.maxAdsPerQuery,
-          input.adStatus,
-          input.adType,
-          input.mediaType
-        );
+        // Fresh queries in incremental mode stop scrolling at a page of ads already stored or seen
+        const isKnown = freshQueryKeys.has(freshnessKey(query)) ? (fingerprint: string) => dedupeTracker.isKnown(fingerprint) : undefined;
+        const result = await scrapeQuery(page, query, input.maxAdsPerQuery, profile, selectors, isKnown);
+        const rawAds = result.ads;
+        // A capped, empty or cut short result set can't tell us which ads stopped
+        const complete = rawAds.length > 0 && rawAds.length < input.maxAdsPerQuery && !result.caughtUp;
+        if (result.caughtUp) {
+          log.info('Caught up with known ads for "' + query.keyword + '" after ' + rawAds.length + ' ads');
+        }
+        recordPageState(proxyGroup, rawAds.length > 0 ? 'results' : 'empty');
         
-        const ads = rawAds.filter(ad => dedupeTracker.isNew(ad));
-        const duplicatesSkipped = rawAds.length - ads.length;
+        extractionHealth.record(query, result);
+        if (result.skippedCards > 0) {
+          log.warning('Skipped ' + result.skippedCards + ' malformed cards for "' + query.keyword + '"');
+        }
         
-        allAds.push(...ads);
-        totalProcessed += ads.length;
-        queriesCompleted++;
+        // Off-target ads are dropped before they count as seen, so a later matching query can still keep them
+        const { kept, dropped } = applyRelevanceFilter(rawAds, query, relevanceThreshold, input.relevanceAction);
+        if (dropped.length > 0) {
+          relevanceDropped += dropped.length;
+          log.info('Relevance: dropped ' + dropped.length + '/' + rawAds.length + ' off-target ads for "' + query.keyword + '"');
+        }
         
-        log.info('Done [' + queriesCompleted + '/' + input.searchQueries.length + '] "' + query.keyword + '" -> ' + ads.length + ' ads');
+        // Compared before dedupe, which hides ads already in the database
+        monitor?.observe(query, kept, complete);
+        
+        const ads = dedupeTracker.claim(kept);
+        const duplicatesSkipped = kept.length - ads.length;
         
-        if (ads.length > 0) {
-          await Actor.pushData(ads);
+        try {
+          if (input.scrapeAdDetails && ads.length > 0) {
+            const enriched = await scrapeAdDetails(page, ads, detailsDeadline);
+            log.info('Details: ' + enriched + '/' + ads.length + ' ads for "' + query.keyword + '"');
+          }
+          
+          if (mediaArchiver && ads.length > 0) {
+            // Images to group are hashed from the archiver's download instead of being fetched again
+            const archived = await mediaArchiver.archiveAds(ads, creativeGrouper?.hashDownloaded(ads));
+            log.info('Media: ' + archived + '/' + ads.length + ' ads archived for "' + query.keyword + '"');
+          }
           
-          if (input.webhookUrl) {
-            const batchSize = input.webhookBatchSize || 100;
-            for (let i = 0; i < ads.length; i += batchSize) {
-              const batch = ads.slice(i, i + batchSize);
-              await sendToWebhook(batch, query);
-            }
+          if (creativeGrouper && ads.length > 0) {
+            await creativeGrouper.groupAds(ads);
           }
+          
+          if (ads.length > 0) {
+            await Actor.pushData(ads);
+            for (const sink of sinks) await sink.write(ads, query);
+          }
+          
+          // Record every running ad the query returned, including ones skipped as duplicates
+          const observedFingerprints = rawAds.filter(ad => ad.is_active).map(ad => ad.ad_fingerprint);
+          for (const sink of sinks) await sink.observe(query, observedFingerprints, { adCount: rawAds.length, complete });
+        } catch (error) {
+          // Not written everywhere, so the retry must still see them as new
+          dedupeTracker.release(ads);
+          throw error;
+        }
+        
+        // Seen only once every sink has them
+        dedupeTracker.commit(ads);
+        for (const ad of ads) runFingerprints.add(ad.ad_fingerprint);
+        totalProcessed += ads.length;
+        
+        if (webhookSink && complete) {
+          reconcilableQueries.push(query);
         }
         
+        queriesCompleted++;
+        completedQueryKeys.add(request.uniqueKey);
+        
+        log.info('Done [' + queriesCompleted + '/' + input.searchQueries.length + '] "' + query.keyword + '" -> ' + ads.length + ' ads');
+        
         if (queriesCompleted % 10 === 0) {
           logProgress();
         }
         
       } catch (error) {
+        if (error instanceof BlockedError) {
+          // Drop the burned session so the retry gets a new proxy IP and fingerprint
+          recordPageState(proxyGroup, error.state);
+          session?.retire();
+          log.warning('Blocked (' + error.state + ') on "' + query.keyword + '" via ' + proxyGroup + ', retrying with a new session');
+          throw error;
+        }
+        
         log.error('Error scraping "' + query.keyword + '": ' + error);
         queriesCompleted++;
+        completedQueryKeys.add(request.uniqueKey);
       }
     },
     
@@ -209,20 +495,66 @@ async function main() {
       const query = request.userData.query;
       log.warning('Failed: "' + query?.keyword + '" - proxy was: ' + (proxyInfo?.hostname || 'NONE'));
       queriesCompleted++;
+      completedQueryKeys.add(request.uniqueKey);
     },
   });
   
-  const requests = input.searchQueries.map((query, index) => ({
-    url: 'https://www.facebook.com/ads/library/?active_status=' + input.adStatus + '&ad_type=' + input.adType + '&country=' + input.country + '&q=' + encodeURIComponent(query.keyword + (query.location ? ' ' + query.location : '')),
-    uniqueKey: 'query-' + index + '-' + query.keyword + '-' + (query.location || 'all'),
+  // Higher-priority queries go to the front of the crawl queue
+  const requests = sortByPriority(input.searchQueries).map((query, index) => ({
+    url: buildSearchUrl(query, input),
+    uniqueKey: 'query-' + index + '-' + (query.pageId ? 'page-' + query.pageId : query.keyword) + '-' + (query.location || 'all') + '-' + query.country,
     userData: { query, index },
   }));
   
-  log.info('Starting crawler with ' + requests.length + ' queries...');
-  await crawler.run(requests);
+  const freshSkipped = skipFresh ? requests.filter(request => freshQueryKeys.has(freshnessKey(request.userData.query))) : [];
+  if (freshSkipped.length > 0) {
+    log.info('Skipping ' + freshSkipped.length + ' queries scraped in the last ' + input.minRefreshHours + 'h');
+  }
+  
+  const pendingRequests = requests.filter(request => !completedQueryKeys.has(request.uniqueKey) && !freshSkipped.includes(request));
+  
+  log.info('Starting crawler with ' + pendingRequests.length + ' queries...');
+  await crawler.run(pendingRequests);
+  await saveCrawlState(getCrawlState());
+  
+  // End of run: reconciliation marks ads these queries no longer return as stopped, file exports are written
+  for (const sink of sinks) await sink.finish(reconcilableQueries);
+  
+  let changeReport: ChangeReport | null = null;
+  if (monitor) {
+    changeReport = monitor.buildReport(Actor.getEnv().actorRunId || 'unknown');
+    await Actor.setValue('CHANGE_REPORT', changeReport);
+    await monitor.saveBaseline();
+    
+    const { totals } = changeReport;
+    log.info('Changes: ' + totals.newAds + ' new ads, ' + totals.stoppedAds + ' stopped, ' + totals.newAdvertisers + ' new advertisers, ' + totals.spendChanges + ' spend changes');
+    
+    const alert = input.alertWebhookUrl ? applyAlertRules(changeReport, input.alertRules) : null;
+    if (alert && input.alertWebhookUrl) {
+      const sent = await sendAlert(input.alertWebhookUrl, alert, input.webhookSecret);
+      log.info('Alert webhook: ' + (sent ? 'sent' : 'failed'));
+    }
+  }
+  
+  // Fields filled on too few ads mean the markup or payloads changed under the selectors
+  const extraction = extractionHealth.summary;
+  const healthViolations = checkFillRates(extraction, input.minFillRates);
+  for (const violation of healthViolations) {
+    log.warning('Fill rate: ' + violation.field + ' on ' + violation.rate + '% of ads, minimum ' + violation.min + '%');
+  }
+  if (healthViolations.length > 0 && input.alertWebhookUrl) {
+    const { byQuery, ...totals } = extraction;
+    const sent = await sendAlert(input.alertWebhookUrl, {
+      type: 'extraction_health',
+      runId: Actor.getEnv().actorRunId || 'unknown',
+      generatedAt: new Date().toISOString(),
+      violations: healthViolations,
+      extraction: totals,
+    }, input.webhookSecret);
+    log.info('Health alert webhook: ' + (sent ? 'sent' : 'failed'));
+  }
   
   const totalTime = (Date.now() - startTime) / 1000 / 60;
-  const uniqueAds = deduplicateAds(allAds);
   const dedupeStats = dedupeTracker.stats;
   
   log.info('='.repeat(60));
@@ -230,9 +562,33 @@ async function main() {
   log.info('='.repeat(60));
   log.info('Total time: ' + totalTime.toFixed(1) + ' minutes');
   log.info('Queries processed: ' + queriesCompleted + '/' + input.searchQueries.length);
+  if (freshSkipped.length > 0) {
+    log.info('Fresh queries skipped: ' + freshSkipped.length);
+  }
   log.info('Total ads scraped: ' + totalProcessed);
   log.info('Duplicates skipped: ' + dedupeStats.duplicates);
-  log.info('Unique ads: ' + uniqueAds.length);
+  if (input.relevanceThreshold) {
+    log.info('Off-target ads dropped: ' + relevanceDropped);
+  }
+  if (webhook) {
+    log.info('Webhook batches: ' + webhook.stats.delivered + ' delivered, ' + webhook.stats.failed + ' failed');
+  }
+  for (const sink of sinks) {
+    if (sink === webhookSink) continue;
+    log.info('Sink ' + sink.name + ': ' + Object.entries(sink.stats).map(([key, value]) => value + ' ' + key).join(', '));
+  }
+  if (mediaArchiver) {
+    const media = mediaArchiver.stats;
+    log.info('Media: ' + media.stored + ' stored (' + (media.bytes / 1024 / 1024).toFixed(1) + 'MB), ' + media.reused + ' already archived, ' + media.failed + ' failed');
+  }
+  if (creativeGrouper) {
+    const groups = creativeGrouper.stats;
+    log.info('Creative groups: ' + groups.creativeGroups + ' visual over ' + groups.hashedAds + ' hashed ads, ' + groups.copyGroups + ' copy');
+  }
+  if (extraction.skippedCards > 0) {
+    log.info('Malformed cards skipped: ' + extraction.skippedCards);
+  }
+  log.info('Unique ads: ' + runFingerprints.size);
   log.info('Rate: ' + (totalProcessed / Math.max(totalTime, 0.1)).toFixed(0) + ' ads/minute');
   log.info('='.repeat(60));
   
@@ -240,14 +596,34 @@ async function main() {
     queriesProcessed: queriesCompleted,
     totalQueries: input.searchQueries.length,
     totalAdsScraped: totalProcessed,
-    uniqueAds: uniqueAds.length,
+    uniqueAds: runFingerprints.size,
     duplicatesSkipped: dedupeStats.duplicates,
-    webhookBatches: batchNumber,
+    relevanceDropped,
+    webhookBatches: webhookSink?.batchNumber || 0,
+    blockStats: blockTracker.stats,
+    webhookDelivered: webhook?.stats.delivered || 0,
+    webhookFailed: webhook?.stats.failed || 0,
+    reconciledQueries: reconcilableQueries.length,
+    freshQueriesSkipped: freshSkipped.length,
+    sinks: Object.fromEntries(sinks.map(sink => [sink.name, sink.stats])),
+    changes: changeReport?.totals,
+    extraction,
+    healthViolations,
+    mediaStats: mediaArchiver?.stats,
+    creativeGroupStats: creativeGrouper?.stats,
     totalTimeMinutes: totalTime,
     adsPerMinute: totalProcessed / Math.max(totalTime, 0.1),
     completedAt: new Date().toISOString(),
   });
   
+  if (healthViolations.length > 0 && input.healthAction === 'fail') {
+    await Actor.exit({
+      exitCode: 1,
+      statusMessage: 'Fill rates below minimum: ' + healthViolations.map(v => v.field + ' ' + v.rate + '%').join(', '),
+    });
+    return;
+  }
+  
   await Actor.exit();
 }
 
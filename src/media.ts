@@ -0,0 +1,186 @@
+/**
+ * Creative media archiving
+ * CDN links expire within days, so creatives are copied content-addressed into the key-value store or an S3 bucket
+ */
+
+import { createHash } from 'crypto';
+import { Actor } from 'apify';
+import { log } from 'crawlee';
+import { ActorInput, ArchivedMedia, MetaAd } from './types.js';
+import { s3ClientFromInput } from './s3.js';
+
+const DEFAULT_STORE_NAME = 'media-archive';
+const DEFAULT_MAX_BYTES = 50 * 1024 * 1024;
+const DOWNLOAD_CONCURRENCY = 4;
+const DOWNLOAD_TIMEOUT = 60000;
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'video/mp4': 'mp4',
+  'video/quicktime': 'mov',
+  'video/webm': 'webm',
+};
+
+export interface MediaStore {
+  keyFor(hash: string, extension: string): string;
+  has(key: string): Promise<boolean>;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  urlFor(key: string): string;
+}
+
+async function openKeyValueMediaStore(name: string): Promise<MediaStore> {
+  const store = await Actor.openKeyValueStore(name);
+  return {
+    // Key-value store keys can't contain slashes
+    keyFor: (hash, extension) => `media-${hash}.${extension}`,
+    has: key => store.recordExists(key),
+    put: (key, data, contentType) => store.setValue(key, data, { contentType }),
+    urlFor: key => store.getPublicUrl(key),
+  };
+}
+
+function openS3MediaStore(input: ActorInput): MediaStore {
+  const client = s3ClientFromInput(input, 'S3 media storage');
+  const publicBase = input.s3PublicUrl?.replace(/\/$/, '');
+
+  return {
+    keyFor: (hash, extension) => `media/${hash.slice(0, 2)}/${hash}.${extension}`,
+    has: key => client.exists(key),
+    put: (key, data, contentType) => client.putObject(key, data, contentType),
+    urlFor: key => publicBase ? `${publicBase}/${key}` : client.objectUrl(key),
+  };
+}
+
+export async function openMediaStore(input: ActorInput): Promise<MediaStore> {
+  return input.mediaStorage === 's3'
+    ? openS3MediaStore(input)
+    : openKeyValueMediaStore(input.mediaKeyValueStore || DEFAULT_STORE_NAME);
+}
+
+/**
+ * Download a creative, refusing anything over maxBytes
+ */
+export async function fetchMedia(sourceUrl: string, maxBytes = DEFAULT_MAX_BYTES): Promise<{ data: Buffer; contentType: string }> {
+  const response = await fetch(sourceUrl, { signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT) });
+  if (!response.ok) throw new Error('HTTP ' + response.status);
+
+  const declaredLength = Number(response.headers.get('content-length') || 0);
+  if (declaredLength > maxBytes) throw new Error(`${declaredLength} bytes exceeds limit`);
+
+  const data = Buffer.from(await response.arrayBuffer());
+  if (data.length > maxBytes) throw new Error(`${data.length} bytes exceeds limit`);
+
+  const contentType = (response.headers.get('content-type') || 'application/octet-stream').split(';')[0].trim();
+  return { data, contentType };
+}
+
+function mediaUrlsOf(ad: MetaAd): string[] {
+  return [...(ad.media_urls || []), ad.thumbnail_url, ad.video_url].filter((url): url is string => !!url);
+}
+
+function extensionFor(contentType: string, sourceUrl: string): string {
+  const known = EXTENSIONS[contentType];
+  if (known) return known;
+
+  const fromPath = new URL(sourceUrl).pathname.match(/\.([a-z0-9]{2,4})$/i);
+  return fromPath ? fromPath[1].toLowerCase() : 'bin';
+}
+
+/**
+ * Downloads each creative once per run and stores it under the hash of its bytes,
+ * so the same creative served from different CDN links is stored once
+ */
+export class MediaArchiver {
+  private archived = new Map<string, Promise<ArchivedMedia | null>>();
+  private stored = 0;
+  private reused = 0;
+  private failed = 0;
+  private bytes = 0;
+
+  constructor(
+    private store: MediaStore,
+    private maxBytes = DEFAULT_MAX_BYTES
+  ) {}
+
+  private async download(sourceUrl: string, onDownload?: (sourceUrl: string, data: Buffer) => void): Promise<ArchivedMedia | null> {
+    try {
+      const { data, contentType } = await fetchMedia(sourceUrl, this.maxBytes);
+      onDownload?.(sourceUrl, data);
+      const sha256 = createHash('sha256').update(data).digest('hex');
+      const key = this.store.keyFor(sha256, extensionFor(contentType, sourceUrl));
+
+      if (await this.store.has(key)) {
+        this.reused++;
+      } else {
+        await this.store.put(key, data, contentType);
+        this.stored++;
+        this.bytes += data.length;
+      }
+
+      return { source_url: sourceUrl, url: this.store.urlFor(key), sha256, content_type: contentType, bytes: data.length };
+    } catch (error) {
+      this.failed++;
+      log.debug(`Could not archive ${sourceUrl}: ${error}`);
+      return null;
+    }
+  }
+
+  private archive(sourceUrl: string, onDownload?: (sourceUrl: string, data: Buffer) => void): Promise<ArchivedMedia | null> {
+    let result = this.archived.get(sourceUrl);
+    if (!result) {
+      result = this.download(sourceUrl, onDownload);
+      this.archived.set(sourceUrl, result);
+    }
+    return result;
+  }
+
+  /**
+   * Archive the media of each ad and write the stable URLs and hashes back onto it.
+   * onDownload sees each file this call downloads, while its bytes are still in memory.
+   */
+  async archiveAds(ads: MetaAd[], onDownload?: (sourceUrl: string, data: Buffer) => void): Promise<number> {
+    const sources = [...new Set(ads.flatMap(mediaUrlsOf))];
+
+    // Small worker pool; the CDN throttles bursts from one client
+    const queue = [...sources];
+    await Promise.all(Array.from({ length: DOWNLOAD_CONCURRENCY }, async () => {
+      for (let url = queue.shift(); url; url = queue.shift()) {
+        await this.archive(url, onDownload);
+      }
+    }));
+
+    let archivedAds = 0;
+    for (const ad of ads) {
+      const media = (await Promise.all((ad.media_urls || []).map(url => this.archive(url))))
+        .filter((item): item is ArchivedMedia => item !== null);
+      const thumbnail = ad.thumbnail_url ? await this.archive(ad.thumbnail_url) : null;
+      const video = ad.video_url ? await this.archive(ad.video_url) : null;
+
+      if (media.length > 0) ad.archived_media = media;
+      if (thumbnail) ad.archived_thumbnail_url = thumbnail.url;
+      if (video) ad.archived_video_url = video.url;
+      if (media.length > 0 || thumbnail) archivedAds++;
+    }
+
+    return archivedAds;
+  }
+
+  get stats() {
+    return {
+      stored: this.stored,
+      reused: this.reused,
+      failed: this.failed,
+      bytes: this.bytes,
+    };
+  }
+
+  restore(stats: { stored: number; reused: number; failed: number; bytes: number }) {
+    this.stored = stats.stored;
+    this.reused = stats.reused;
+    this.failed = stats.failed;
+    this.bytes = stats.bytes;
+  }
+}
@@ -0,0 +1,250 @@
+/**
+ * Monitor mode for Meta Ads Library Scraper
+ * Diffs each query's results against the previous run: new ads, stopped ads, new advertisers and spend band changes
+ */
+
+import { Actor } from 'apify';
+import { log } from 'crawlee';
+import { AlertRules, ChangeReport, HealthAlert, MetaAd, MonitorState, QueryChanges, SearchQuery, SnapshotAd } from './types.js';
+import { signatureHeaders } from './webhook.js';
+import { SnapshotResponse, fingerprintPages } from './fingerprints.js';
+
+const BASELINE_STORE = 'monitor-baseline';
+const BASELINE_KEY = 'BASELINE';
+const ALERT_ATTEMPTS = 3;
+
+/**
+ * Baseline and observations are keyed by keyword, location and country,
+ * the same way import-ads stores search_query/search_location/search_country
+ */
+export function monitorKey(query: Pick<SearchQuery, 'keyword' | 'location' | 'country'>): string {
+  return `${query.keyword}|${query.location || ''}|${query.country || ''}`;
+}
+
+function toSnapshot(ad: MetaAd): SnapshotAd {
+  return {
+    ad_fingerprint: ad.ad_fingerprint,
+    page_id: ad.page_id,
+    page_name: ad.page_name,
+    is_active: ad.is_active,
+    spend_lower: ad.spend_lower,
+    spend_upper: ad.spend_upper,
+    currency: ad.currency,
+  };
+}
+
+export type Baseline = Record<string, SnapshotAd[]>;
+
+function countChanges(queries: QueryChanges[]): ChangeReport['totals'] {
+  return {
+    queries: queries.length,
+    newAds: queries.reduce((sum, q) => sum + q.newAds.length, 0),
+    stoppedAds: queries.reduce((sum, q) => sum + q.stoppedAds.length, 0),
+    newAdvertisers: queries.reduce((sum, q) => sum + q.newAdvertisers.length, 0),
+    spendChanges: queries.reduce((sum, q) => sum + q.spendChanges.length, 0),
+  };
+}
+
+function changeCount(totals: ChangeReport['totals']): number {
+  return totals.newAds + totals.stoppedAds + totals.newAdvertisers + totals.spendChanges;
+}
+
+/**
+ * Baseline rows from get-fingerprints in snapshot mode, page by page
+ */
+export async function fetchEndpointBaseline(url: string, queries: SearchQuery[], secret?: string): Promise<Baseline> {
+  const request = { queries: [...new Set(queries.map(q => q.keyword))], mode: 'snapshot' };
+  const baseline: Baseline = {};
+
+  // Ads stored before search_country existed belong to every country this run searches the keyword and location in
+  const keysByPlace = new Map<string, Set<string>>();
+  for (const query of queries) {
+    const place = `${query.keyword}|${query.location || ''}`;
+    const keys = keysByPlace.get(place) || new Set<string>();
+    keysByPlace.set(place, keys.add(monitorKey(query)));
+  }
+
+  for await (const data of fingerprintPages<SnapshotResponse>(url, request, secret)) {
+    for (const row of data.ads || []) {
+      const place = { keyword: row.search_query, location: row.search_location || '' };
+      const keys = row.search_country === null
+        ? keysByPlace.get(`${place.keyword}|${place.location}`) || new Set<string>()
+        : [monitorKey({ ...place, country: row.search_country })];
+      for (const key of keys) {
+        (baseline[key] ||= []).push({
+          ad_fingerprint: row.ad_fingerprint,
+          page_id: row.advertiser_id || '',
+          page_name: row.advertiser_name || '',
+          is_active: row.is_active,
+          spend_lower: row.spend_lower ?? undefined,
+          spend_upper: row.spend_upper ?? undefined,
+          currency: row.currency ?? undefined,
+        });
+      }
+    }
+  }
+  return baseline;
+}
+
+export async function loadStoredBaseline(): Promise<Baseline | null> {
+  const store = await Actor.openKeyValueStore(BASELINE_STORE);
+  return store.getValue<Baseline>(BASELINE_KEY);
+}
+
+export class ChangeMonitor {
+  private observed: MonitorState['observed'] = {};
+
+  constructor(
+    private baseline: Baseline,
+    private baselineSource: ChangeReport['baselineSource']
+  ) {}
+
+  /**
+   * Record what a query returned. Only complete (uncapped) result sets can show that an ad stopped.
+   */
+  observe(query: SearchQuery, ads: MetaAd[], complete: boolean) {
+    this.observed[monitorKey(query)] = { query, ads: ads.map(toSnapshot), complete };
+  }
+
+  private diffQuery(key: string, knownFingerprints: Set<string>): QueryChanges {
+    const { query, ads, complete } = this.observed[key];
+
+    // A query with no baseline yet would report everything as new
+    if (!(key in this.baseline)) {
+      return { query, complete, hasBaseline: false, newAds: [], stoppedAds: [], newAdvertisers: [], spendChanges: [] };
+    }
+
+    const previous = this.baseline[key];
+    const previousByFingerprint = new Map(previous.map(ad => [ad.ad_fingerprint, ad]));
+    const currentFingerprints = new Set(ads.map(ad => ad.ad_fingerprint));
+    const previousAdvertisers = new Set(previous.map(ad => ad.page_id).filter(Boolean));
+
+    const newAds = ads.filter(ad => !knownFingerprints.has(ad.ad_fingerprint));
+
+    const stoppedAds = [
+      ...ads.filter(ad => !ad.is_active && previousByFingerprint.get(ad.ad_fingerprint)?.is_active),
+      ...(complete ? previous.filter(ad => ad.is_active && !currentFingerprints.has(ad.ad_fingerprint)) : []),
+    ];
+
+    const newAdvertisers = new Map<string, { page_id: string; page_name: string; ads: number }>();
+    for (const ad of ads) {
+      if (!ad.page_id || previousAdvertisers.has(ad.page_id)) continue;
+      const entry = newAdvertisers.get(ad.page_id) || { page_id: ad.page_id, page_name: ad.page_name, ads: 0 };
+      entry.ads++;
+      newAdvertisers.set(ad.page_id, entry);
+    }
+
+    const spendChanges: QueryChanges['spendChanges'] = [];
+    for (const ad of ads) {
+      const before = previousByFingerprint.get(ad.ad_fingerprint);
+      if (!before || ad.spend_lower === undefined) continue;
+      if (before.spend_lower !== ad.spend_lower || before.spend_upper !== ad.spend_upper) {
+        spendChanges.push({
+          ad_fingerprint: ad.ad_fingerprint,
+          page_id: ad.page_id,
+          page_name: ad.page_name,
+          before: { lower: before.spend_lower, upper: before.spend_upper },
+          after: { lower: ad.spend_lower, upper: ad.spend_upper },
+          currency: ad.currency,
+        });
+      }
+    }
+
+    return {
+      query,
+      complete,
+      hasBaseline: true,
+      newAds,
+      stoppedAds,
+      newAdvertisers: [...newAdvertisers.values()],
+      spendChanges,
+    };
+  }
+
+  buildReport(runId: string): ChangeReport {
+    const knownFingerprints = new Set(Object.values(this.baseline).flat().map(ad => ad.ad_fingerprint));
+    const queries = Object.keys(this.observed).map(key => this.diffQuery(key, knownFingerprints));
+
+    return {
+      runId,
+      generatedAt: new Date().toISOString(),
+      baselineSource: this.baselineSource,
+      totals: countChanges(queries),
+      queries,
+    };
+  }
+
+  /**
+   * Store this run's results as the next run's baseline. Queries not run this time keep their old entry.
+   */
+  async saveBaseline() {
+    const store = await Actor.openKeyValueStore(BASELINE_STORE);
+    const stored = (await store.getValue<Baseline>(BASELINE_KEY)) || {};
+    for (const [key, { ads }] of Object.entries(this.observed)) {
+      stored[key] = ads;
+    }
+    await store.setValue(BASELINE_KEY, stored);
+  }
+
+  toState(): MonitorState {
+    return { observed: this.observed };
+  }
+
+  restore(state: MonitorState) {
+    this.observed = state.observed;
+  }
+}
+
+/**
+ * Narrow a report to the changes the alert rules ask for, or null when nothing qualifies
+ */
+export function applyAlertRules(report: ChangeReport, rules: AlertRules = {}): ChangeReport | null {
+  const watched = rules.watchPageIds?.length ? new Set(rules.watchPageIds) : null;
+  const isWatched = (item: { page_id: string }) => !watched || watched.has(item.page_id);
+
+  const queries = report.queries
+    .map(changes => ({
+      ...changes,
+      newAds: rules.newAds === false ? [] : changes.newAds.filter(isWatched),
+      stoppedAds: rules.stoppedAds === false ? [] : changes.stoppedAds.filter(isWatched),
+      newAdvertisers: rules.newAdvertisers === false ? [] : changes.newAdvertisers.filter(isWatched),
+      spendChanges: rules.spendChanges === false ? [] : changes.spendChanges.filter(isWatched),
+    }))
+    .filter(changes => changeCount(countChanges([changes])) > 0);
+
+  const totals = countChanges(queries);
+  const count = changeCount(totals);
+
+  if (count === 0 || count < (rules.minChanges || 1)) return null;
+  return { ...report, totals, queries };
+}
+
+/**
+ * POST an alert (a change report or an extraction health alert) to the alert webhook, signed like the ad webhook
+ */
+export async function sendAlert(url: string, alert: ChangeReport | HealthAlert, secret?: string): Promise<boolean> {
+  const body = JSON.stringify(alert);
+
+  for (let attempt = 1; attempt <= ALERT_ATTEMPTS; attempt++) {
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Actor-Run-Id': alert.runId,
+          ...signatureHeaders(body, secret),
+        },
+        body,
+      });
+      if (response.ok) return true;
+      log.warning(`Alert webhook returned HTTP ${response.status} (attempt ${attempt}/${ALERT_ATTEMPTS})`);
+    } catch (error) {
+      log.warning(`Alert webhook failed: ${error} (attempt ${attempt}/${ALERT_ATTEMPTS})`);
+    }
+    if (attempt < ALERT_ATTEMPTS) {
+      await new Promise(resolve => setTimeout(resolve, 1000 * 2 ** (attempt - 1)));
+    }
+  }
+
+  return false;
+}
@@ -0,0 +1,183 @@
+/**
+ * Card text parsing across the locales the Ad Library renders
+ * Run with `npm test`
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseDeliveryDates, parseImpressions, parseNumber, parseRange, parseSpend } from './parsers.js';
+
+const iso = (date: string) => date + 'T00:00:00.000Z';
+
+describe('parseNumber', () => {
+  it('reads grouping separators and decimal marks', () => {
+    assert.equal(parseNumber('1,000,000'), 1000000);
+    assert.equal(parseNumber('1.000.000'), 1000000);
+    assert.equal(parseNumber('1 000 000'), 1000000);
+    assert.equal(parseNumber('1.234.567,89'), 1234567.89);
+    assert.equal(parseNumber('1,234,567.89'), 1234567.89);
+    assert.equal(parseNumber('2,5'), 2.5);
+  });
+
+  it('applies K/M-style suffixes', () => {
+    assert.equal(parseNumber('10K'), 10000);
+    assert.equal(parseNumber('1,5 Mio.'), 1500000);
+    assert.equal(parseNumber('1.5M'), 1500000);
+    assert.equal(parseNumber('2 mln'), 2000000);
+    assert.equal(parseNumber('3 tys.'), 3000);
+  });
+
+  it('rejects text that is not a number', () => {
+    assert.equal(parseNumber('abc'), undefined);
+  });
+});
+
+describe('parseRange', () => {
+  it('shares a trailing suffix with the lower bound', () => {
+    assert.deepEqual(parseRange('1-5K'), { lower: 1000, upper: 5000 });
+    assert.deepEqual(parseRange('100-1K'), { lower: 100, upper: 1000 });
+  });
+
+  it('reads open-ended ranges', () => {
+    assert.deepEqual(parseRange('<1K'), { lower: 0, upper: 1000 });
+    assert.deepEqual(parseRange('> 1 Mio.'), { lower: 1000000, upper: undefined });
+  });
+});
+
+describe('parseSpend', () => {
+  it('US', () => {
+    assert.deepEqual(parseSpend('Amount spent (USD): $1K - $5K', 'US'), { lower: 1000, upper: 5000, currency: 'USD' });
+    assert.deepEqual(parseSpend('Spend: $100 - $199', 'US'), { lower: 100, upper: 199, currency: 'USD' });
+  });
+
+  it('resolves $ by country', () => {
+    assert.deepEqual(parseSpend('Spend: $1K - $5K', 'CA'), { lower: 1000, upper: 5000, currency: 'CAD' });
+  });
+
+  it('EU', () => {
+    assert.deepEqual(parseSpend('Amount spent: €1K - €5K', 'IE'), { lower: 1000, upper: 5000, currency: 'EUR' });
+  });
+
+  it('BR', () => {
+    assert.deepEqual(parseSpend('Valor gasto: R$ 1.000 - R$ 5.000', 'BR'), { lower: 1000, upper: 5000, currency: 'BRL' });
+    assert.deepEqual(parseSpend('Valor gasto: R$ 100 a R$ 499', 'BR'), { lower: 100, upper: 499, currency: 'BRL' });
+  });
+
+  it('PL', () => {
+    assert.deepEqual(parseSpend('Wydana kwota: 1 tys. zł - 5 tys. zł', 'PL'), { lower: 1000, upper: 5000, currency: 'PLN' });
+    assert.deepEqual(parseSpend('Wydana kwota: 100 zł - 499 zł', 'PL'), { lower: 100, upper: 499, currency: 'PLN' });
+  });
+
+  it('DE', () => {
+    assert.deepEqual(parseSpend('Ausgegebener Betrag: 1.000 € - 5.000 €', 'DE'), { lower: 1000, upper: 5000, currency: 'EUR' });
+    assert.deepEqual(parseSpend('Ausgaben: 1 Tsd. € bis 5 Tsd. €', 'DE'), { lower: 1000, upper: 5000, currency: 'EUR' });
+  });
+
+  it('FR', () => {
+    assert.deepEqual(parseSpend('Montant dépensé : 1 000 € - 5 000 €', 'FR'), { lower: 1000, upper: 5000, currency: 'EUR' });
+    assert.deepEqual(parseSpend('Montant dépensé : 1 000 € à 5 000 €', 'FR'), { lower: 1000, upper: 5000, currency: 'EUR' });
+  });
+
+  it('ES', () => {
+    assert.deepEqual(parseSpend('Importe gastado: 1 mil € - 5 mil €', 'ES'), { lower: 1000, upper: 5000, currency: 'EUR' });
+    assert.deepEqual(parseSpend('Importe gastado: menos de 100 €', 'ES'), { lower: 0, upper: 100, currency: 'EUR' });
+  });
+
+  it('PT', () => {
+    assert.deepEqual(parseSpend('Valor gasto: 1000 € - 5000 €', 'PT'), { lower: 1000, upper: 5000, currency: 'EUR' });
+    assert.deepEqual(parseSpend('Valor gasto: 1,5 mil € até 2 mil €', 'PT'), { lower: 1500, upper: 2000, currency: 'EUR' });
+  });
+
+  it('skips ranges without a currency', () => {
+    assert.deepEqual(
+      parseSpend('Impressions: 10K-15K · Amount spent (USD): $100 - $199', 'US'),
+      { lower: 100, upper: 199, currency: 'USD' }
+    );
+    assert.equal(parseSpend('Impressions: 10K-15K', 'US'), undefined);
+  });
+});
+
+describe('parseImpressions', () => {
+  it('US', () => {
+    assert.deepEqual(parseImpressions('Impressions: 10K-15K'), { lower: 10000, upper: 15000 });
+    assert.deepEqual(parseImpressions('<1K impressions'), { lower: 0, upper: 1000 });
+  });
+
+  it('EU', () => {
+    assert.deepEqual(parseImpressions('Impressions: 1M-5M'), { lower: 1000000, upper: 5000000 });
+  });
+
+  it('BR', () => {
+    assert.deepEqual(parseImpressions('Impressões: 1 mil - 5 mil'), { lower: 1000, upper: 5000 });
+  });
+
+  it('PL', () => {
+    assert.deepEqual(parseImpressions('Wyświetlenia: 10 tys. - 15 tys.'), { lower: 10000, upper: 15000 });
+  });
+
+  it('DE', () => {
+    assert.deepEqual(parseImpressions('Impressionen: 1 Mio. - 5 Mio.'), { lower: 1000000, upper: 5000000 });
+    assert.deepEqual(parseImpressions('Impressionen: 1.000 - 5.000'), { lower: 1000, upper: 5000 });
+  });
+
+  it('FR', () => {
+    assert.deepEqual(parseImpressions('Impressions : 10 k - 15 k'), { lower: 10000, upper: 15000 });
+  });
+
+  it('ES', () => {
+    assert.deepEqual(parseImpressions('Impresiones: 1 mil - 5 mil'), { lower: 1000, upper: 5000 });
+  });
+
+  it('PT', () => {
+    assert.deepEqual(parseImpressions('Impressões: 1 M - 5 M'), { lower: 1000000, upper: 5000000 });
+  });
+
+  it('ignores lines without the word', () => {
+    assert.equal(parseImpressions('Amount spent (USD): $100 - $199'), undefined);
+  });
+});
+
+describe('parseDeliveryDates', () => {
+  it('US', () => {
+    assert.deepEqual(parseDeliveryDates('Started running on Jan 5, 2024', 'US'), { start: iso('2024-01-05'), stop: undefined });
+    assert.deepEqual(parseDeliveryDates('01/05/2024 - 02/10/2024', 'US'), { start: iso('2024-01-05'), stop: iso('2024-02-10') });
+  });
+
+  it('EU', () => {
+    assert.deepEqual(parseDeliveryDates('5 Jan 2024 - 10 Feb 2024', 'IE'), { start: iso('2024-01-05'), stop: iso('2024-02-10') });
+    assert.deepEqual(parseDeliveryDates('05/01/2024 - 10/02/2024', 'IE'), { start: iso('2024-01-05'), stop: iso('2024-02-10') });
+  });
+
+  it('BR', () => {
+    assert.deepEqual(parseDeliveryDates('Veiculação iniciada em 5 de jan. de 2024', 'BR'), { start: iso('2024-01-05'), stop: undefined });
+    assert.deepEqual(parseDeliveryDates('05/01/2024 - 10/02/2024', 'BR'), { start: iso('2024-01-05'), stop: iso('2024-02-10') });
+  });
+
+  it('PL', () => {
+    assert.deepEqual(parseDeliveryDates('Data rozpoczęcia wyświetlania: 05.01.2024', 'PL'), { start: iso('2024-01-05'), stop: undefined });
+    assert.deepEqual(parseDeliveryDates('2024-01-05 - 2024-02-10', 'PL'), { start: iso('2024-01-05'), stop: iso('2024-02-10') });
+  });
+
+  it('DE', () => {
+    assert.deepEqual(parseDeliveryDates('Seit 5. Jan. 2024 aktiv', 'DE'), { start: iso('2024-01-05'), stop: undefined });
+    assert.deepEqual(parseDeliveryDates('5. März 2024 - 10. Dez. 2024', 'DE'), { start: iso('2024-03-05'), stop: iso('2024-12-10') });
+  });
+
+  it('FR', () => {
+    assert.deepEqual(parseDeliveryDates('Diffusion commencée le 5 janv. 2024', 'FR'), { start: iso('2024-01-05'), stop: undefined });
+    assert.deepEqual(parseDeliveryDates('5 févr. 2024 - 10 août 2024', 'FR'), { start: iso('2024-02-05'), stop: iso('2024-08-10') });
+  });
+
+  it('ES', () => {
+    assert.deepEqual(parseDeliveryDates('Empezó a circular el 5 ene 2024', 'ES'), { start: iso('2024-01-05'), stop: undefined });
+    assert.deepEqual(parseDeliveryDates('5 de enero de 2024 - 10 de dic. de 2024', 'ES'), { start: iso('2024-01-05'), stop: iso('2024-12-10') });
+  });
+
+  it('PT', () => {
+    assert.deepEqual(parseDeliveryDates('Começou a ser veiculado em 5 de out. de 2024', 'PT'), { start: iso('2024-10-05'), stop: undefined });
+  });
+
+  it('rejects impossible dates', () => {
+    assert.deepEqual(parseDeliveryDates('31/02/2024', 'DE'), { start: undefined, stop: undefined });
+  });
+});
@@ -0,0 +1,312 @@
+/**
+ * Locale-aware parsing of Ad Library card text
+ * Spend and impression ranges (1,000,000 / 1.000.000 / 10K / 1,5 Mio. / <1K), currencies and delivery dates
+ */
+
+export interface ParsedRange {
+  lower?: number;
+  upper?: number;
+}
+
+export interface ParsedSpend extends ParsedRange {
+  currency?: string;
+}
+
+// Keys are lowercase with dots removed
+const MULTIPLIERS: Record<string, number> = {
+  k: 1e3,
+  tsd: 1e3,
+  mil: 1e3,
+  tys: 1e3,
+  'тыс': 1e3,
+  '万': 1e4,
+  m: 1e6,
+  mi: 1e6,
+  mio: 1e6,
+  mn: 1e6,
+  mln: 1e6,
+  mill: 1e6,
+  'млн': 1e6,
+  b: 1e9,
+  bn: 1e9,
+  mrd: 1e9,
+  '億': 1e8,
+};
+
+const NUMBER = String.raw`\d{1,3}(?:[.,' \u00a0\u202f]\d{3})+(?:[.,]\d+)?|\d+(?:[.,]\d+)?`;
+const SUFFIX = `(?:${Object.keys(MULTIPLIERS).sort((a, b) => b.length - a.length).join('|')})\\.?(?![a-zа-я])`;
+const RANGE_SEPARATOR = String.raw`\s*(?:-|–|—|~|to|bis|a|à|até|ate|al|tot)\s*`;
+const BELOW = ['<', '≤', 'less than', 'under', 'menos de', 'moins de', 'unter', 'weniger als', 'meno di', 'minder dan'];
+const ABOVE = ['>', '≥', 'more than', 'over', 'más de', 'mas de', 'plus de', 'über', 'mehr als', 'mais de', 'più di', 'meer dan'];
+
+// ¤ stands in for a currency marker, so "$1K - $5K" and "1.000 € - 5.000 €" parse alike.
+// A trailing marker followed by a number belongs to the next amount.
+const RANGE_PATTERN = new RegExp(
+  `(${[...BELOW, ...ABOVE].join('|')})?\\s*(¤)?\\s*(${NUMBER})\\s*(${SUFFIX})?\\s*(¤(?!\\s*\\d))?` +
+  `(?:${RANGE_SEPARATOR}(¤)?\\s*(${NUMBER})\\s*(${SUFFIX})?\\s*(¤(?!\\s*\\d))?)?`,
+  'gi'
+);
+
+const IMPRESSION_WORDS = /impressions?|impresiones|impressionen|impressões|impressoes|impressioni|vertoningen|wyświetle|показ/i;
+
+const CURRENCY_CODES = [
+  'USD', 'EUR', 'GBP', 'CAD', 'AUD', 'NZD', 'BRL', 'MXN', 'ARS', 'CLP', 'COP', 'PEN', 'INR', 'JPY', 'CNY',
+  'KRW', 'CHF', 'SEK', 'NOK', 'DKK', 'PLN', 'CZK', 'HUF', 'RON', 'TRY', 'ZAR', 'NGN', 'KES', 'EGP', 'AED',
+  'SAR', 'ILS', 'PHP', 'IDR', 'MYR', 'SGD', 'THB', 'VND', 'HKD', 'TWD', 'RUB', 'UAH',
+];
+
+// Longest first, so "R$" wins over "$"
+const CURRENCY_SYMBOLS: [string, string][] = [
+  ['US$', 'USD'], ['CA$', 'CAD'], ['AU$', 'AUD'], ['NZ$', 'NZD'], ['MX$', 'MXN'], ['HK$', 'HKD'],
+  ['R$', 'BRL'], ['C$', 'CAD'], ['A$', 'AUD'], ['S$', 'SGD'],
+  ['zł', 'PLN'], ['Kč', 'CZK'], ['Ft', 'HUF'], ['Rp', 'IDR'], ['RM', 'MYR'],
+  ['€', 'EUR'], ['£', 'GBP'], ['₹', 'INR'], ['₩', 'KRW'], ['₺', 'TRY'], ['₱', 'PHP'], ['₦', 'NGN'],
+  ['₪', 'ILS'], ['₫', 'VND'], ['฿', 'THB'], ['₽', 'RUB'], ['₴', 'UAH'],
+];
+
+const DOLLAR_BY_COUNTRY: Record<string, string> = {
+  CA: 'CAD', AU: 'AUD', NZ: 'NZD', MX: 'MXN', AR: 'ARS', CL: 'CLP', CO: 'COP', SG: 'SGD', HK: 'HKD', TW: 'TWD',
+};
+
+const KRONA_BY_COUNTRY: Record<string, string> = { SE: 'SEK', NO: 'NOK', DK: 'DKK' };
+
+// Month names and abbreviations in en/es/fr/de/pt/it/nl, accents stripped
+const MONTHS: Record<string, number> = {
+  jan: 1, ene: 1, gen: 1, janv: 1,
+  feb: 2, fev: 2, fevr: 2,
+  mar: 3, maa: 3, mrt: 3,
+  apr: 4, abr: 4, avr: 4,
+  may: 5, mai: 5, mag: 5, mei: 5,
+  jun: 6, juin: 6, giu: 6,
+  jul: 7, juil: 7, lug: 7,
+  aug: 8, ago: 8, aout: 8,
+  sep: 9, set: 9,
+  oct: 10, okt: 10, out: 10, ott: 10,
+  nov: 11,
+  dec: 12, dic: 12, dez: 12,
+};
+
+// Countries that write numeric dates month-first
+const MONTH_FIRST_COUNTRIES = new Set(['US', 'PH', 'CA']);
+
+function foldAccents(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+function monthNumber(word: string): number | undefined {
+  const key = foldAccents(word.toLowerCase()).replace(/\./g, '');
+  return MONTHS[key] ?? MONTHS[key.slice(0, 4)] ?? MONTHS[key.slice(0, 3)];
+}
+
+/**
+ * Parse one number with grouping separators and an optional K/M-style suffix.
+ * A single separator followed by exactly three digits is a thousands separator, otherwise it's the decimal mark.
+ */
+export function parseNumber(text: string): number | undefined {
+  const match = text.trim().toLowerCase().match(new RegExp(`^(${NUMBER})\\s*(${SUFFIX})?$`, 'i'));
+  if (!match) return undefined;
+
+  const value = parseDigits(match[1], !!match[2]);
+  if (value === undefined) return undefined;
+  return match[2] ? Math.round(value * multiplierOf(match[2])) : value;
+}
+
+function multiplierOf(suffix: string): number {
+  return MULTIPLIERS[suffix.toLowerCase().replace(/\./g, '')] || 1;
+}
+
+function parseDigits(raw: string, hasSuffix: boolean): number | undefined {
+  let digits = raw.replace(/[' \u00a0\u202f]/g, '');
+  const separators = digits.match(/[.,]/g) || [];
+
+  if (separators.length > 0) {
+    const last = digits.lastIndexOf(separators[separators.length - 1]);
+    const mixed = new Set(separators).size > 1;
+    const trailing = digits.length - last - 1;
+
+    if (mixed) {
+      // 1.234.567,89 or 1,234,567.89: the last separator is the decimal mark
+      digits = digits.slice(0, last).replace(/[.,]/g, '') + '.' + digits.slice(last + 1);
+    } else if (separators.length > 1 || (trailing === 3 && !hasSuffix)) {
+      digits = digits.replace(/[.,]/g, '');
+    } else {
+      digits = digits.replace(/[.,]/g, '.');
+    }
+  }
+
+  const value = Number(digits);
+  return Number.isFinite(value) ? value : undefined;
+}
+
+interface RangeMatch extends ParsedRange {
+  index: number;
+  hasCurrency: boolean;
+}
+
+/**
+ * Every range in the text, in order
+ */
+function matchRanges(text: string): RangeMatch[] {
+  const ranges: RangeMatch[] = [];
+
+  for (const match of text.replace(/[\u00a0\u202f]/g, ' ').toLowerCase().matchAll(RANGE_PATTERN)) {
+    const [, comparator, cur1, firstRaw, firstSuffix, cur2, cur3, secondRaw, secondSuffix, cur4] = match;
+    const range = toRange(comparator, firstRaw, firstSuffix, secondRaw, secondSuffix);
+    if (range) {
+      ranges.push({ ...range, index: match.index || 0, hasCurrency: !!(cur1 || cur2 || cur3 || cur4) });
+    }
+  }
+
+  return ranges;
+}
+
+function toRange(
+  comparator: string | undefined,
+  firstRaw: string,
+  firstSuffix: string | undefined,
+  secondRaw: string | undefined,
+  secondSuffix: string | undefined
+): ParsedRange | undefined {
+  const first = parseDigits(firstRaw, !!firstSuffix);
+  if (first === undefined) return undefined;
+
+  if (secondRaw === undefined) {
+    const value = Math.round(first * (firstSuffix ? multiplierOf(firstSuffix) : 1));
+    if (comparator && BELOW.includes(comparator)) return { lower: 0, upper: value };
+    if (comparator) return { lower: value };
+    return { lower: value, upper: value };
+  }
+
+  const second = parseDigits(secondRaw, !!secondSuffix);
+  if (second === undefined) return undefined;
+
+  const upperMultiplier = secondSuffix ? multiplierOf(secondSuffix) : 1;
+  const upper = Math.round(second * upperMultiplier);
+
+  // "1-5K" shares the suffix, "100-1K" doesn't
+  let lowerMultiplier = firstSuffix ? multiplierOf(firstSuffix) : 1;
+  if (!firstSuffix && secondSuffix && first * upperMultiplier <= upper) {
+    lowerMultiplier = upperMultiplier;
+  }
+
+  return { lower: Math.round(first * lowerMultiplier), upper };
+}
+
+/**
+ * Parse a range such as "10K-15K", "1.000 – 5.000", "<1K" or "> 1 Mio."
+ */
+export function parseRange(text: string): ParsedRange | undefined {
+  const [first] = matchRanges(text);
+  return first ? { lower: first.lower, upper: first.upper } : undefined;
+}
+
+/**
+ * ISO currency code from an explicit code or a symbol. "$" and "kr" are resolved by country.
+ */
+export function parseCurrency(text: string, country?: string): string | undefined {
+  const code = text.match(new RegExp(`\\b(${CURRENCY_CODES.join('|')})\\b`));
+  if (code) return code[1];
+
+  for (const [symbol, currency] of CURRENCY_SYMBOLS) {
+    if (text.includes(symbol)) return currency;
+  }
+
+  const upperCountry = (country || '').toUpperCase();
+  if (/\bkr\.?(?![a-z])/i.test(text)) return KRONA_BY_COUNTRY[upperCountry] || 'SEK';
+  if (text.includes('¥')) return upperCountry === 'CN' ? 'CNY' : 'JPY';
+  if (text.includes('$')) return DOLLAR_BY_COUNTRY[upperCountry] || 'USD';
+
+  return undefined;
+}
+
+function markCurrency(text: string): string {
+  let marked = text.replace(new RegExp(`\\b(${CURRENCY_CODES.join('|')})\\b`, 'g'), ' ¤ ');
+  for (const [symbol] of CURRENCY_SYMBOLS) {
+    marked = marked.split(symbol).join(' ¤ ');
+  }
+  return marked.replace(/[$¥]|\bkr\.?(?![a-z])/gi, ' ¤ ');
+}
+
+/**
+ * Find the spend range in card text: the first range written with a currency
+ */
+export function parseSpend(text: string, country?: string): ParsedSpend | undefined {
+  for (const line of text.split(/\n|·|\|/)) {
+    const currency = parseCurrency(line, country);
+    if (!currency) continue;
+
+    const range = matchRanges(markCurrency(line)).find(candidate => candidate.hasCurrency);
+    if (range) return { lower: range.lower, upper: range.upper, currency };
+  }
+  return undefined;
+}
+
+/**
+ * Find the impressions range in card text: the range right next to the word "impressions"
+ */
+export function parseImpressions(text: string): ParsedRange | undefined {
+  for (const line of text.split(/\n|·|\|/)) {
+    const word = line.match(IMPRESSION_WORDS);
+    if (!word || word.index === undefined) continue;
+
+    // "Impressions: 10K-15K" or "10K-15K impressions"
+    const [after] = matchRanges(line.slice(word.index + word[0].length, word.index + word[0].length + 40));
+    const before = matchRanges(line.slice(Math.max(0, word.index - 40), word.index)).pop();
+    const range = after || before;
+    if (range) return { lower: range.lower, upper: range.upper };
+  }
+  return undefined;
+}
+
+function toIsoDate(year: number, month: number, day: number): string | undefined {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return undefined;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1) return undefined;
+  return date.toISOString();
+}
+
+/**
+ * Every date in the text, in order, as ISO timestamps (UTC midnight).
+ * Handles "Jan 5, 2024", "5 Jan 2024", "5. Jan. 2024", "5 de jan. de 2024", "2024-01-05", "05/01/2024" and "2024年1月5日".
+ */
+export function parseDates(text: string, country?: string): string[] {
+  const folded = foldAccents(text).replace(/[  ]/g, ' ');
+  const found: { index: number; date: string }[] = [];
+  const monthFirst = MONTH_FIRST_COUNTRIES.has((country || '').toUpperCase());
+
+  const collect = (pattern: RegExp, toDate: (match: RegExpExecArray) => string | undefined) => {
+    for (const match of folded.matchAll(pattern)) {
+      const date = toDate(match);
+      if (date && !found.some(item => Math.abs(item.index - (match.index || 0)) < 4)) {
+        found.push({ index: match.index || 0, date });
+      }
+    }
+  };
+
+  collect(/(\d{4})年\s*(\d{1,2})月\s*(\d{1,2})日/g, m => toIsoDate(+m[1], +m[2], +m[3]));
+  collect(/\b(\d{4})[-/.]\s?(\d{1,2})[-/.]\s?(\d{1,2})\b/g, m => toIsoDate(+m[1], +m[2], +m[3]));
+  collect(/\b([a-z]{3,10})\.?\s+(\d{1,2}),?\s+(\d{4})\b/gi, m => {
+    const month = monthNumber(m[1]);
+    return month ? toIsoDate(+m[3], month, +m[2]) : undefined;
+  });
+  collect(/\b(\d{1,2})\.?\s+(?:de\s+)?([a-z]{3,10})\.?,?\s+(?:de\s+)?(\d{4})\b/gi, m => {
+    const month = monthNumber(m[2]);
+    return month ? toIsoDate(+m[3], month, +m[1]) : undefined;
+  });
+  collect(/\b(\d{1,2})[/.](\d{1,2})[/.](\d{4})\b/g, m => {
+    const [a, b] = [+m[1], +m[2]];
+    // A part over 12 can only be the day; otherwise the country decides
+    const dayFirst = a > 12 || (b <= 12 && !monthFirst);
+    return dayFirst ? toIsoDate(+m[3], b, a) : toIsoDate(+m[3], a, b);
+  });
+
+  return found.sort((a, b) => a.index - b.index).map(item => item.date);
+}
+
+/**
+ * Delivery start and stop from a card's metadata: "Started running on <date>" or "<start> - <stop>"
+ */
+export function parseDeliveryDates(text: string, country?: string): { start?: string; stop?: string } {
+  const [start, stop] = parseDates(text, country);
+  return { start, stop };
+}
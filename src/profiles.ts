@@ -0,0 +1,65 @@
+/**
+ * Crawler performance profiles
+ * Named presets for speed vs. stealth, with per-field overrides from the input
+ */
+
+import { ActorInput, PerformanceProfile, ProfileName } from './types.js';
+
+export const PROFILES: Record<ProfileName, PerformanceProfile> = {
+  stealth: {
+    maxConcurrency: 2,
+    maxRequestsPerMinute: 20,
+    requestHandlerTimeoutSecs: 300,
+    navigationTimeoutSecs: 60,
+    maxRequestRetries: 5,
+    maxOpenPagesPerBrowser: 1,
+    retireBrowserAfterPageCount: 30,
+    scrollDelayMs: 2000,
+    seeMoreDelayMs: 1200,
+    maxNoNewAdsScrolls: 4,
+    // Pages that never load images look less like a browser
+    blockResources: false,
+  },
+  balanced: {
+    maxConcurrency: 4,
+    maxRequestsPerMinute: 60,
+    requestHandlerTimeoutSecs: 240,
+    navigationTimeoutSecs: 60,
+    maxRequestRetries: 4,
+    maxOpenPagesPerBrowser: 2,
+    retireBrowserAfterPageCount: 20,
+    scrollDelayMs: 1200,
+    seeMoreDelayMs: 800,
+    maxNoNewAdsScrolls: 3,
+    blockResources: true,
+  },
+  aggressive: {
+    maxConcurrency: 8,
+    maxRequestsPerMinute: 120,
+    requestHandlerTimeoutSecs: 180,
+    navigationTimeoutSecs: 45,
+    maxRequestRetries: 3,
+    maxOpenPagesPerBrowser: 2,
+    retireBrowserAfterPageCount: 10,
+    scrollDelayMs: 800,
+    seeMoreDelayMs: 500,
+    maxNoNewAdsScrolls: 2,
+    blockResources: true,
+  },
+};
+
+/**
+ * The selected profile with any fields the input sets explicitly
+ */
+export function resolveProfile(input: ActorInput): PerformanceProfile {
+  const profile = { ...PROFILES[input.performanceProfile || 'aggressive'] };
+
+  for (const field of Object.keys(profile) as (keyof PerformanceProfile)[]) {
+    const override = input[field];
+    if (override !== undefined && override !== null) {
+      (profile as Record<string, unknown>)[field] = override;
+    }
+  }
+
+  return profile;
+}
@@ -0,0 +1,305 @@
+/**
+ * Query input for Meta Ads Library Scraper
+ * Query file parsing, and expansion into one SearchQuery per keyword × location tagged with city/state/country
+ */
+
+import { Actor } from 'apify';
+import { ActorInput, SearchQuery } from './types.js';
+import { STATE_CITIES } from './regions.js';
+
+/**
+ * Split "Ocala FL" / "Ocala, FL" into city and state
+ */
+export function parseLocation(location: string): { city?: string; state?: string } {
+  const match = location.trim().match(/^(.*?)[,\s]+([A-Za-z]{2})$/);
+  if (match) {
+    return { city: match[1].trim() || undefined, state: match[2].toUpperCase() };
+  }
+  return { city: location.trim() || undefined };
+}
+
+/**
+ * Cities to expand a state across: custom regions first, then the built-in lists
+ */
+function citiesForState(state: string, regions: Record<string, string[]>): string[] | undefined {
+  return regions[state] || regions[state.toUpperCase()] || STATE_CITIES[state.toUpperCase()];
+}
+
+/**
+ * Expand `locations` lists and whole-state queries into separate queries
+ */
+export function expandQueries(
+  queries: SearchQuery[],
+  defaultCountry: string,
+  regions: Record<string, string[]> = {}
+): SearchQuery[] {
+  const expanded: SearchQuery[] = [];
+
+  for (const query of queries) {
+    const { locations, ...base } = query;
+    const country = (query.country || defaultCountry).toUpperCase();
+    const state = query.state?.toUpperCase();
+
+    let targets = locations && locations.length > 0
+      ? locations
+      : query.location ? [query.location] : [];
+
+    if (targets.length === 0 && state) {
+      const cities = citiesForState(state, regions);
+      if (!cities) {
+        // No city list for this state: search the state as a whole
+        expanded.push({ ...base, location: state, state, country });
+        continue;
+      }
+      targets = cities.map(city => `${city} ${state}`);
+    }
+
+    if (targets.length === 0) {
+      expanded.push({ ...base, country });
+      continue;
+    }
+
+    for (const location of targets) {
+      const parsed = parseLocation(location);
+      expanded.push({
+        ...base,
+        location,
+        city: parsed.city,
+        state: parsed.state || state,
+        country,
+      });
+    }
+  }
+
+  return expanded;
+}
+
+const MAX_REPORTED_ERRORS = 20;
+
+export type QueryFileFormat = 'csv' | 'json' | 'ndjson';
+
+/**
+ * Split CSV text into rows, honoring quoted fields and "" escapes
+ */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(value => value.trim().length > 0));
+}
+
+function detectFormat(text: string, name = ''): QueryFileFormat {
+  const lowerName = name.toLowerCase().split('?')[0];
+  if (lowerName.endsWith('.csv')) return 'csv';
+  if (lowerName.endsWith('.ndjson') || lowerName.endsWith('.jsonl')) return 'ndjson';
+  if (lowerName.endsWith('.json')) return 'json';
+
+  const trimmed = text.trim();
+  if (trimmed.startsWith('[')) return 'json';
+  if (trimmed.startsWith('{')) {
+    try {
+      JSON.parse(trimmed);
+      return 'json';
+    } catch {
+      return 'ndjson';
+    }
+  }
+  return 'csv';
+}
+
+/**
+ * Validate one raw record; returns the query or an error message
+ */
+function toSearchQuery(record: Record<string, unknown>): SearchQuery | string {
+  const text = (value: unknown) => value === undefined || value === null ? '' : String(value).trim();
+
+  const keyword = text(record.keyword);
+  const pageId = text(record.pageId ?? record.page_id);
+  if (!keyword && !pageId) {
+    return 'keyword or pageId is required';
+  }
+  if (pageId && !/^\d+$/.test(pageId)) {
+    return `pageId "${pageId}" must be numeric`;
+  }
+
+  const query: SearchQuery = { keyword };
+  if (pageId) query.pageId = pageId;
+
+  const location = text(record.location);
+  if (location) query.location = location;
+
+  const country = text(record.country);
+  if (country) {
+    if (!/^[A-Za-z]{2}$/.test(country)) return `country "${country}" must be a 2-letter code`;
+    query.country = country.toUpperCase();
+  }
+
+  const state = text(record.state);
+  if (state) query.state = state;
+
+  const category = text(record.category);
+  if (category) query.category = category;
+
+  const priority = text(record.priority);
+  if (priority) {
+    const value = Number(priority);
+    if (!Number.isInteger(value)) return `priority "${priority}" must be an integer`;
+    query.priority = value;
+  }
+
+  return query;
+}
+
+/**
+ * Parse a query file. Errors name the row (CSV rows count the header as row 1).
+ */
+export function parseQueryFile(text: string, format?: QueryFileFormat, name?: string): SearchQuery[] {
+  const resolved = format || detectFormat(text, name);
+  const records: { row: number; record: Record<string, unknown> | string }[] = [];
+
+  if (resolved === 'csv') {
+    const [header, ...rows] = parseCsvRows(text);
+    if (!header) return [];
+    const columns = header.map(column => column.trim());
+    rows.forEach((values, i) => {
+      const record: Record<string, unknown> = {};
+      columns.forEach((column, j) => { record[column] = values[j]; });
+      records.push({ row: i + 2, record });
+    });
+  } else if (resolved === 'ndjson') {
+    text.split('\n').forEach((line, i) => {
+      if (!line.trim()) return;
+      try {
+        records.push({ row: i + 1, record: JSON.parse(line) });
+      } catch {
+        records.push({ row: i + 1, record: 'invalid JSON' });
+      }
+    });
+  } else {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (error) {
+      throw new Error('Query file is not valid JSON: ' + error);
+    }
+    return parseQueryRecords(parsed);
+  }
+
+  return validateRecords(records);
+}
+
+/**
+ * Validate already-parsed JSON: an array, or an object with `inputs` or `searchQueries`
+ */
+export function parseQueryRecords(parsed: unknown): SearchQuery[] {
+  const container = parsed as { inputs?: unknown; searchQueries?: unknown };
+  const list = Array.isArray(parsed) ? parsed : container?.inputs ?? container?.searchQueries;
+  if (!Array.isArray(list)) {
+    throw new Error('Query file JSON must be an array or an object with an "inputs" array');
+  }
+
+  return validateRecords(list.map((record, i) => ({ row: i + 1, record })));
+}
+
+function validateRecords(records: { row: number; record: unknown }[]): SearchQuery[] {
+  const queries: SearchQuery[] = [];
+  const errors: string[] = [];
+
+  for (const { row, record } of records) {
+    const result = record && typeof record === 'object'
+      ? toSearchQuery(record as Record<string, unknown>)
+      : typeof record === 'string' ? record : 'expected an object';
+
+    if (typeof result === 'string') {
+      errors.push(`row ${row}: ${result}`);
+    } else {
+      queries.push(result);
+    }
+  }
+
+  if (errors.length > 0) {
+    const shown = errors.slice(0, MAX_REPORTED_ERRORS).join('; ');
+    const more = errors.length > MAX_REPORTED_ERRORS ? ` (and ${errors.length - MAX_REPORTED_ERRORS} more)` : '';
+    throw new Error(`Invalid query file, ${errors.length} bad rows: ${shown}${more}`);
+  }
+
+  return queries;
+}
+
+/**
+ * Lower priority numbers crawl first; queries without a priority go last, in input order
+ */
+export function sortByPriority<T extends { priority?: number }>(items: T[]): T[] {
+  return items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) =>
+      (a.item.priority ?? Number.MAX_SAFE_INTEGER) - (b.item.priority ?? Number.MAX_SAFE_INTEGER) || a.index - b.index
+    )
+    .map(({ item }) => item);
+}
+
+/**
+ * Load queries from `queryFileUrl` and/or the `queryFileKey` key-value store record
+ */
+export async function loadQueryFile(input: ActorInput): Promise<SearchQuery[]> {
+  const queries: SearchQuery[] = [];
+
+  if (input.queryFileUrl) {
+    const response = await fetch(input.queryFileUrl);
+    if (!response.ok) {
+      throw new Error(`Could not download query file (${response.status}): ${input.queryFileUrl}`);
+    }
+    queries.push(...parseQueryFile(await response.text(), input.queryFileFormat, input.queryFileUrl));
+  }
+
+  if (input.queryFileKey) {
+    const record = await Actor.getValue<unknown>(input.queryFileKey);
+    if (record === null) {
+      throw new Error(`Key-value store record "${input.queryFileKey}" not found`);
+    }
+
+    if (typeof record === 'string' || Buffer.isBuffer(record)) {
+      queries.push(...parseQueryFile(record.toString(), input.queryFileFormat, input.queryFileKey));
+    } else {
+      // JSON records arrive already parsed
+      queries.push(...parseQueryRecords(record));
+    }
+  }
+
+  return queries;
+}
@@ -0,0 +1,30 @@
+/**
+ * Built-in region lists for query expansion
+ * A query with `state` and no `locations` is expanded across that state's cities
+ */
+
+export const STATE_CITIES: Record<string, string[]> = {
+  FL: [
+    'Boca Raton', 'Bradenton', 'Brandon', 'Cape Coral', 'Clearwater', 'Clermont',
+    'Cocoa Beach', 'Daytona Beach', 'Deltona', 'Fort Lauderdale', 'Fort Myers', 'Gainesville',
+    'Hollywood', 'Jacksonville', 'Lakeland', 'Leesburg', 'Melbourne', 'Miami',
+    'Naples', 'Ocala', 'Orlando', 'Palm Bay', 'Panama City', 'Pensacola',
+    'Plant City', 'Pompano Beach', 'Port Charlotte', 'Sanford', 'Sarasota', 'St Augustine',
+    'St Petersburg', 'Tallahassee', 'Tampa', 'The Villages', 'Titusville', 'West Palm Beach',
+  ],
+};
+
+/**
+ * US state names by postal code, for matching "Florida" as well as "FL" in ad copy
+ */
+export const STATE_NAMES: Record<string, string> = {
+  AL: 'Alabama', AK: 'Alaska', AZ: 'Arizona', AR: 'Arkansas', CA: 'California', CO: 'Colorado',
+  CT: 'Connecticut', DE: 'Delaware', DC: 'District of Columbia', FL: 'Florida', GA: 'Georgia', HI: 'Hawaii',
+  ID: 'Idaho', IL: 'Illinois', IN: 'Indiana', IA: 'Iowa', KS: 'Kansas', KY: 'Kentucky',
+  LA: 'Louisiana', ME: 'Maine', MD: 'Maryland', MA: 'Massachusetts', MI: 'Michigan', MN: 'Minnesota',
+  MS: 'Mississippi', MO: 'Missouri', MT: 'Montana', NE: 'Nebraska', NV: 'Nevada', NH: 'New Hampshire',
+  NJ: 'New Jersey', NM: 'New Mexico', NY: 'New York', NC: 'North Carolina', ND: 'North Dakota', OH: 'Ohio',
+  OK: 'Oklahoma', OR: 'Oregon', PA: 'Pennsylvania', RI: 'Rhode Island', SC: 'South Carolina', SD: 'South Dakota',
+  TN: 'Tennessee', TX: 'Texas', UT: 'Utah', VT: 'Vermont', VA: 'Virginia', WA: 'Washington',
+  WV: 'West Virginia', WI: 'Wisconsin', WY: 'Wyoming',
+};
@@ -0,0 +1,127 @@
+/**
+ * Relevance scoring for local queries
+ * Scores each ad against the query keyword and location so national or unrelated advertisers can be dropped or flagged
+ */
+
+import { MetaAd, SearchQuery } from './types.js';
+import { STATE_NAMES } from './regions.js';
+import { extractCityMentions, extractMatchedKeywords } from './enrichment.js';
+
+const KEYWORD_WEIGHT = 0.5;
+const LOCATION_WEIGHT = 0.5;
+
+function contains(text: string, term: string): boolean {
+  const escaped = term.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`\\b${escaped}\\b`).test(text.toLowerCase());
+}
+
+function compact(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function keywordScore(ad: MetaAd, query: SearchQuery, copy: string, signals: string[]): number {
+  const matched = extractMatchedKeywords(copy, query.keyword);
+  const phrase = query.keyword.toLowerCase().trim();
+  if (matched.includes(phrase)) {
+    signals.push('keyword_phrase');
+    return 1;
+  }
+
+  // The phrase itself only counts above; score on the share of its words
+  const words = extractMatchedKeywords(phrase, query.keyword).filter(word => word !== phrase);
+  const matchedWords = matched.filter(word => word !== phrase);
+  if (words.length === 0 || matchedWords.length === 0) return 0;
+
+  signals.push('keyword_terms');
+  return matchedWords.length / words.length;
+}
+
+/**
+ * Strongest location signal: the city in the copy, page name, landing domain or targeting beats a nearby city or the state
+ */
+function locationScore(ad: MetaAd, query: SearchQuery, copy: string, signals: string[]): number {
+  const city = query.city;
+  const state = query.state?.toUpperCase();
+  const checks: [string, number, boolean][] = [];
+
+  if (city) {
+    checks.push(
+      ['city_in_copy', 1, contains(copy, city)],
+      ['city_in_page_name', 1, contains(ad.page_name, city)],
+      ['city_in_domain', 1, !!ad.landing_domain && compact(ad.landing_domain).includes(compact(city))],
+      ['targets_city', 1, (ad.target_locations || []).some(location => contains(location, city))],
+    );
+  }
+  const nearbyCities = extractCityMentions(copy, { ...query, city: undefined })
+    .filter(mentioned => !city || mentioned.toLowerCase() !== city.toLowerCase());
+  checks.push(['nearby_city', 0.6, nearbyCities.length > 0]);
+  if (state) {
+    const stateName = STATE_NAMES[state];
+    checks.push(
+      ['targets_state', 0.5, !!stateName && (ad.target_locations || []).some(location => contains(location, stateName))],
+      ['state_in_copy', 0.4, (!!stateName && contains(copy, stateName)) || new RegExp(`\\b${state}\\b`).test(copy)],
+    );
+  }
+
+  let score = 0;
+  for (const [signal, weight, matched] of checks) {
+    if (!matched) continue;
+    signals.push(signal);
+    score = Math.max(score, weight);
+  }
+  return score;
+}
+
+/**
+ * Score from 0 to 1 with the signals that contributed. Page queries are always relevant.
+ */
+export function scoreRelevance(ad: MetaAd, query: SearchQuery): { score: number; signals: string[] } {
+  if (query.pageId) {
+    return { score: 1, signals: ['page_query'] };
+  }
+
+  const copy = [
+    ad.page_name,
+    ad.ad_text,
+    ...(ad.ad_creative_bodies || []),
+    ...(ad.ad_creative_link_titles || []),
+    ...(ad.ad_creative_link_descriptions || []),
+  ].filter(Boolean).join('\n');
+
+  const signals: string[] = [];
+  const keyword = keywordScore(ad, query, copy, signals);
+
+  const score = query.city || query.state
+    ? KEYWORD_WEIGHT * keyword + LOCATION_WEIGHT * locationScore(ad, query, copy, signals)
+    : keyword;
+  return { score: Math.round(score * 100) / 100, signals };
+}
+
+/**
+ * Score every ad and split off the ones below the threshold (0 to 1).
+ * In flag mode nothing is dropped; low scorers are only marked is_relevant: false.
+ */
+export function applyRelevanceFilter(
+  ads: MetaAd[],
+  query: SearchQuery,
+  threshold: number,
+  action: 'drop' | 'flag' = 'drop'
+): { kept: MetaAd[]; dropped: MetaAd[] } {
+  const kept: MetaAd[] = [];
+  const dropped: MetaAd[] = [];
+
+  for (const ad of ads) {
+    const { score, signals } = scoreRelevance(ad, query);
+    ad.relevance_score = score;
+    ad.relevance_signals = signals;
+    ad.is_relevant = score >= threshold;
+
+    if (ad.is_relevant || action === 'flag') {
+      kept.push(ad);
+    } else {
+      dropped.push(ad);
+    }
+  }
+
+  return { kept, dropped };
+}
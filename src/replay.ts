@@ -0,0 +1,365 @@
+/**
+ * Offline replay of Ad Library fixtures
+ * Serves fixture HTML and graphql responses through route interception, runs the scraper against them,
+ * checks the resulting ads and reports which card selectors still match.
+ * Fixtures are hand-written (synthetic) or recorded from a live search with --capture.
+ *
+ * Usage: npm run replay [-- <fixture dir>...] [--selectors <file>] [--report <file>]
+ *        npm run replay -- --capture <fixture dir> --query '<search query JSON>'
+ */
+
+import { mkdir, readdir, readFile, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { basename, join } from 'path';
+import { Browser, Page, Route, chromium } from 'playwright';
+import { log } from 'crawlee';
+import { ScrollTiming, buildSearchUrl, extractAdsFromPage, scrapeQuery, scrollForMore } from './scraper.js';
+import { resolveSelectors } from './selectors.js';
+import { GRAPHQL_PATH, attachCollector } from './graphql.js';
+import { fillRates } from './health.js';
+import { CardSelectors, MetaAd, ScrapeResult, SearchFilters, SearchQuery } from './types.js';
+
+const FIXTURES_DIR = 'fixtures/ad-library';
+
+// Fixtures load instantly, so scroll waits only need to let the page's own scripts run
+const REPLAY_TIMING: ScrollTiming = {
+  scrollDelayMs: 250,
+  seeMoreDelayMs: 100,
+  maxNoNewAdsScrolls: 2,
+};
+
+const REPLAY_FILTERS: SearchFilters = {
+  country: 'US',
+  adStatus: 'all',
+  adType: 'all',
+  mediaType: 'all',
+};
+
+// Selectors every card should match; the others (media, CTA) legitimately vary per ad
+const ESSENTIAL_SELECTORS: (keyof CardSelectors)[] = ['pageName', 'pageLink', 'profileImage', 'body'];
+
+/**
+ * fixture.json in each fixture directory
+ */
+interface Fixture {
+  description?: string;
+  // Hand-written to mirror the Ad Library markup and payloads (the default), or recorded from a live search
+  origin?: 'synthetic' | 'captured';
+  capturedAt?: string;
+  query: SearchQuery;
+  // Served for the search page document
+  html: string;
+  // Served in order to POSTs on /api/graphql, e.g. the pages loaded while scrolling
+  graphql?: string[];
+  maxAds?: number;
+  expect: {
+    // Whether the ads should come from graphql payloads or DOM extraction
+    source: 'graphql' | 'dom';
+    ads: number;
+    // Fields that must be filled on every ad
+    requiredFields?: (keyof MetaAd)[];
+    // Expected field values by ad_archive_id
+    fields?: Record<string, Partial<MetaAd>>;
+  };
+}
+
+interface SelectorHealth {
+  name: keyof CardSelectors;
+  cards: number;
+  selectors: { selector: string; cards: number }[];
+}
+
+interface FixtureReport {
+  fixture: string;
+  origin?: Fixture['origin'];
+  source: ScrapeResult['source'];
+  ads: number;
+  skippedCards: number;
+  domAds: number;
+  cards: number;
+  selectors: SelectorHealth[];
+  fillRates: { result: Record<string, number>; dom: Record<string, number> };
+  failures: string[];
+}
+
+/**
+ * Answer every request from the fixture: the search document, graphql pages in order, nothing else (offline)
+ */
+function serveFixture(route: Route, html: string, graphql: string[]) {
+  const request = route.request();
+
+  if (request.resourceType() === 'document') {
+    return route.fulfill({ status: 200, contentType: 'text/html; charset=utf-8', body: html });
+  }
+  if (request.url().includes(GRAPHQL_PATH) && request.method() === 'POST') {
+    return route.fulfill({ status: 200, contentType: 'application/json', body: graphql.shift() ?? '{}' });
+  }
+  return route.abort();
+}
+
+/**
+ * How many cards each selector, and each alternative of a fallback list, matches
+ */
+async function checkSelectors(page: Page, cardSelectors: CardSelectors): Promise<{ cards: number; selectors: SelectorHealth[] }> {
+  return page.evaluate((selectors) => {
+    const cards = Array.from(document.querySelectorAll(selectors.card));
+    const health: { name: string; cards: number; selectors: { selector: string; cards: number }[] }[] = [];
+
+    for (const [name, value] of Object.entries(selectors)) {
+      if (name === 'card') continue;
+      const list = Array.isArray(value) ? value : [value];
+      health.push({
+        name,
+        cards: cards.filter(card => list.some(selector => card.querySelector(selector))).length,
+        selectors: list.map(selector => ({
+          selector,
+          cards: cards.filter(card => card.querySelector(selector)).length,
+        })),
+      });
+    }
+
+    return { cards: cards.length, selectors: health };
+  }, cardSelectors) as Promise<{ cards: number; selectors: SelectorHealth[] }>;
+}
+
+function compareFields(ads: MetaAd[], expected: Record<string, Partial<MetaAd>>): string[] {
+  const failures: string[] = [];
+
+  for (const [archiveId, fields] of Object.entries(expected)) {
+    const ad = ads.find(candidate => candidate.ad_archive_id === archiveId);
+    if (!ad) {
+      failures.push(`ad ${archiveId} not extracted`);
+      continue;
+    }
+    for (const [field, value] of Object.entries(fields)) {
+      const actual = ad[field as keyof MetaAd];
+      if (JSON.stringify(actual) !== JSON.stringify(value)) {
+        failures.push(`ad ${archiveId} ${field}: expected ${JSON.stringify(value)}, got ${JSON.stringify(actual)}`);
+      }
+    }
+  }
+
+  return failures;
+}
+
+async function replayFixture(browser: Browser, dir: string, cardSelectors: CardSelectors): Promise<FixtureReport> {
+  const fixture: Fixture = JSON.parse(await readFile(join(dir, 'fixture.json'), 'utf-8'));
+  const html = await readFile(join(dir, fixture.html), 'utf-8');
+  const graphql = await Promise.all((fixture.graphql || []).map(file => readFile(join(dir, file), 'utf-8')));
+  const maxAds = fixture.maxAds || 100;
+
+  const page = await browser.newPage();
+  try {
+    await page.route('**/*', route => serveFixture(route, html, graphql));
+
+    // Attached before navigation like the crawler's pre-navigation hook, so the document's payload is seen
+    attachCollector(page);
+    await page.goto(buildSearchUrl(fixture.query, REPLAY_FILTERS));
+
+    // Meta's scripts can't run offline, so a captured page's graphql responses are requested on its behalf
+    if (fixture.origin === 'captured') {
+      await page.evaluate(async ({ path, count }) => {
+        for (let i = 0; i < count; i++) await fetch(path, { method: 'POST' });
+      }, { path: GRAPHQL_PATH, count: graphql.length });
+    }
+
+    const { ads, source, skippedCards } = await scrapeQuery(page, fixture.query, maxAds, REPLAY_TIMING, cardSelectors);
+
+    // DOM extraction on its own as well, so its selectors are checked even when graphql payloads won
+    await scrollForMore(page, maxAds, undefined, REPLAY_TIMING, cardSelectors);
+    const dom = await extractAdsFromPage(page, fixture.query, cardSelectors);
+    const { cards, selectors } = await checkSelectors(page, cardSelectors);
+
+    const failures: string[] = [];
+    const { expect } = fixture;
+
+    if (source !== expect.source) failures.push(`ads came from ${source}, expected ${expect.source}`);
+    if (ads.length !== expect.ads) failures.push(`${ads.length} ads extracted, expected ${expect.ads}`);
+    if (cards === 0) failures.push(`card selector matched nothing: ${cardSelectors.card}`);
+    if (skippedCards > 0 || dom.skippedCards > 0) failures.push(`${Math.max(skippedCards, dom.skippedCards)} cards skipped as malformed`);
+
+    for (const health of selectors) {
+      if (ESSENTIAL_SELECTORS.includes(health.name) && health.cards < cards) {
+        failures.push(`${health.name} selector matched ${health.cards} of ${cards} cards`);
+      }
+    }
+
+    const result = fillRates(ads);
+    for (const field of expect.requiredFields || []) {
+      const rate = fillRates(ads, [field])[field];
+      if (rate < 1) failures.push(`${field} filled on ${Math.round(rate * 100)}% of ads`);
+    }
+
+    failures.push(...compareFields(ads, expect.fields || {}));
+
+    return {
+      fixture: basename(dir),
+      origin: fixture.origin,
+      source,
+      ads: ads.length,
+      skippedCards,
+      domAds: dom.ads.length,
+      cards,
+      selectors,
+      fillRates: { result, dom: fillRates(dom.ads) },
+      failures,
+    };
+  } finally {
+    await page.close();
+  }
+}
+
+/**
+ * Record a live search as a new fixture: the page as rendered after scrolling, and every graphql response in order.
+ * Its expectations are what the replay of the capture extracts; check them, and add expected field values, by hand.
+ */
+async function captureFixture(browser: Browser, dir: string, query: SearchQuery, cardSelectors: CardSelectors, maxAds = 30) {
+  const page = await browser.newPage();
+  const responses: Promise<string>[] = [];
+  page.on('response', response => {
+    if (response.url().includes(GRAPHQL_PATH) && response.request().method() === 'POST') {
+      responses.push(response.text().catch(() => ''));
+    }
+  });
+
+  const fixture: Fixture = {
+    description: 'Captured from a live search for "' + query.keyword + '"',
+    origin: 'captured',
+    capturedAt: new Date().toISOString(),
+    query,
+    html: 'page.html',
+    maxAds,
+    expect: { source: 'graphql', ads: 0 },
+  };
+
+  try {
+    await page.goto(buildSearchUrl(query, { ...REPLAY_FILTERS, country: query.country || REPLAY_FILTERS.country }), {
+      waitUntil: 'domcontentloaded',
+      timeout: 60000,
+    });
+    const cards = await page.waitForSelector(cardSelectors.card, { timeout: 30000 }).catch(() => null);
+    if (!cards) throw new Error('No ad cards rendered; the search may have been blocked or shown a login wall');
+    await scrollForMore(page, maxAds, undefined, undefined, cardSelectors);
+
+    const html = await page.content();
+    const graphql = (await Promise.all(responses)).filter(body => body.length > 0);
+
+    await mkdir(dir, { recursive: true });
+    await writeFile(join(dir, fixture.html), html);
+    fixture.graphql = graphql.map((_, i) => 'graphql-' + (i + 1) + '.json');
+    await Promise.all(graphql.map((body, i) => writeFile(join(dir, fixture.graphql![i]), body)));
+  } finally {
+    await page.close();
+  }
+
+  await writeFile(join(dir, 'fixture.json'), JSON.stringify(fixture, null, 2) + '\n');
+  const report = await replayFixture(browser, dir, cardSelectors);
+  if (report.source === 'empty') throw new Error('The capture replays to no ads: ' + report.failures.join('; '));
+  fixture.expect = {
+    source: report.source,
+    ads: report.ads,
+    requiredFields: Object.entries(report.fillRates.result)
+      .filter(([, rate]) => rate === 1)
+      .map(([field]) => field as keyof MetaAd),
+  };
+  await writeFile(join(dir, 'fixture.json'), JSON.stringify(fixture, null, 2) + '\n');
+
+  log.info('Captured ' + report.ads + ' ads (' + report.source + ') and ' + (fixture.graphql?.length || 0) + ' graphql responses to ' + dir);
+}
+
+async function fixtureDirs(args: string[]): Promise<string[]> {
+  if (args.length > 0) return args;
+  const entries = await readdir(FIXTURES_DIR, { withFileTypes: true });
+  return entries
+    .filter(entry => entry.isDirectory() && existsSync(join(FIXTURES_DIR, entry.name, 'fixture.json')))
+    .map(entry => join(FIXTURES_DIR, entry.name));
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const reportIndex = args.indexOf('--report');
+  const reportFile = reportIndex >= 0 ? args.splice(reportIndex, 2)[1] : undefined;
+  const selectorsIndex = args.indexOf('--selectors');
+  const selectorsFile = selectorsIndex >= 0 ? args.splice(selectorsIndex, 2)[1] : undefined;
+
+  const captureIndex = args.indexOf('--capture');
+  const captureDir = captureIndex >= 0 ? args.splice(captureIndex, 2)[1] : undefined;
+  const queryIndex = args.indexOf('--query');
+  const captureQuery = queryIndex >= 0 ? args.splice(queryIndex, 2)[1] : undefined;
+
+  // Try selector overrides (the Actor's `selectors` input) against the fixtures before using them in a run
+  const cardSelectors = resolveSelectors(selectorsFile ? JSON.parse(await readFile(selectorsFile, 'utf-8')) : {});
+
+  if (captureDir) {
+    if (!captureQuery) {
+      log.error('--capture needs --query, e.g. --query \'{"keyword":"plumber","location":"Austin, TX","country":"US"}\'');
+      process.exit(1);
+    }
+    const browser = await chromium.launch({ headless: true });
+    try {
+      await captureFixture(browser, captureDir, JSON.parse(captureQuery), cardSelectors);
+    } catch (error) {
+      log.error('Capture failed: ' + (error instanceof Error ? error.message : error));
+      process.exitCode = 1;
+    } finally {
+      await browser.close();
+    }
+    process.exit(process.exitCode || 0);
+  }
+
+  const dirs = await fixtureDirs(args);
+  if (dirs.length === 0) {
+    log.error('No fixtures found in ' + FIXTURES_DIR);
+    process.exit(1);
+  }
+
+  const browser = await chromium.launch({ headless: true });
+  const reports: FixtureReport[] = [];
+
+  try {
+    for (const dir of dirs) {
+      try {
+        reports.push(await replayFixture(browser, dir, cardSelectors));
+      } catch (error) {
+        reports.push({
+          fixture: basename(dir),
+          source: 'dom',
+          ads: 0,
+          skippedCards: 0,
+          domAds: 0,
+          cards: 0,
+          selectors: [],
+          fillRates: { result: {}, dom: {} },
+          failures: ['replay failed: ' + (error instanceof Error ? error.message : error)],
+        });
+      }
+    }
+  } finally {
+    await browser.close();
+  }
+
+  for (const report of reports) {
+    const line = report.fixture + ' (' + (report.origin || 'synthetic') + '): ' + report.ads + ' ads from ' + report.source + ', ' + report.cards + ' cards, ' + report.domAds + ' from DOM';
+    if (report.failures.length === 0) {
+      log.info('PASS ' + line);
+    } else {
+      log.error('FAIL ' + line);
+      report.failures.forEach(failure => log.error('  ' + failure));
+    }
+    for (const health of report.selectors) {
+      const detail = health.selectors.map(s => s.selector + ' ' + s.cards + '/' + report.cards).join(', ');
+      log.info('  ' + health.name + ': ' + detail);
+    }
+  }
+
+  if (reportFile) {
+    await writeFile(reportFile, JSON.stringify(reports, null, 2));
+    log.info('Selector health report written to ' + reportFile);
+  }
+
+  const failed = reports.filter(report => report.failures.length > 0).length;
+  log.info(reports.length - failed + '/' + reports.length + ' fixtures passed');
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+await main();
@@ -0,0 +1,113 @@
+/**
+ * Minimal S3-compatible client
+ * Path-style requests signed with AWS Signature V4, so MinIO and other S3 clones work too
+ */
+
+import { createHash, createHmac } from 'crypto';
+import { ActorInput } from './types.js';
+
+export interface S3Config {
+  endpoint: string;
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+function encodeKey(key: string): string {
+  return key.split('/').map(encodeURIComponent).join('/');
+}
+
+export class S3Client {
+  constructor(private config: S3Config) {}
+
+  objectUrl(key: string): string {
+    return `${this.config.endpoint.replace(/\/$/, '')}/${this.config.bucket}/${encodeKey(key)}`;
+  }
+
+  private signedHeaders(method: string, url: URL, payloadHash: string, extraHeaders: Record<string, string> = {}): Record<string, string> {
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const scope = `${dateStamp}/${this.config.region}/s3/aws4_request`;
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+      ...Object.fromEntries(Object.entries(extraHeaders).map(([name, value]) => [name.toLowerCase(), value])),
+    };
+    const names = Object.keys(headers).sort();
+
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      url.search.replace(/^\?/, ''),
+      names.map(name => `${name}:${headers[name].trim()}\n`).join(''),
+      names.join(';'),
+      payloadHash,
+    ].join('\n');
+
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+    const signingKey = ['s3', 'aws4_request'].reduce(
+      (key, part) => hmac(key, part),
+      hmac(hmac('AWS4' + this.config.secretAccessKey, dateStamp), this.config.region)
+    );
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    const { host: _host, ...sent } = headers;
+    return {
+      ...sent,
+      Authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${names.join(';')}, Signature=${signature}`,
+    };
+  }
+
+  async exists(key: string): Promise<boolean> {
+    const url = new URL(this.objectUrl(key));
+    const response = await fetch(url, {
+      method: 'HEAD',
+      headers: this.signedHeaders('HEAD', url, sha256Hex('')),
+    });
+    if (response.status === 404) return false;
+    if (!response.ok) throw new Error(`S3 HEAD ${key} failed: HTTP ${response.status}`);
+    return true;
+  }
+
+  async putObject(key: string, body: Buffer | string, contentType: string): Promise<void> {
+    const url = new URL(this.objectUrl(key));
+    const data = typeof body === 'string' ? Buffer.from(body) : body;
+    const response = await fetch(url, {
+      method: 'PUT',
+      headers: this.signedHeaders('PUT', url, sha256Hex(data), { 'Content-Type': contentType }),
+      body: new Uint8Array(data),
+    });
+    if (!response.ok) {
+      throw new Error(`S3 PUT ${key} failed: HTTP ${response.status} ${await response.text().catch(() => '')}`.trim());
+    }
+  }
+}
+
+/**
+ * Client for the bucket set by the s3* inputs, shared by media archiving and file exports
+ */
+export function s3ClientFromInput(input: ActorInput, feature: string): S3Client {
+  const missing = (['s3Endpoint', 's3Bucket', 's3AccessKeyId', 's3SecretAccessKey'] as const).filter(field => !input[field]);
+  if (missing.length > 0) {
+    throw new Error(feature + ' needs ' + missing.join(', '));
+  }
+
+  return new S3Client({
+    endpoint: input.s3Endpoint as string,
+    bucket: input.s3Bucket as string,
+    region: input.s3Region || 'us-east-1',
+    accessKeyId: input.s3AccessKeyId as string,
+    secretAccessKey: input.s3SecretAccessKey as string,
+  });
+}
@@ -1,34 +1,68 @@
 /**
  * Core scraping logic for Meta Ads Library
- * AGGRESSIVE MODE - Optimized for speed
+ * Timing comes from the run's performance profile
  */
 
+import { createHash } from 'crypto';
 import { Page } from 'playwright';
-import { MetaAd, SearchQuery } from './types.js';
+import { CardSelectors, MetaAd, PerformanceProfile, ScrapeResult, SearchFilters, SearchQuery } from './types.js';
 import { log } from 'crawlee';
+import { GraphQLAdCollector, attachCollector, getCollector } from './graphql.js';
+import { BlockedError, classifyPage, isBlocked } from './blocking.js';
+import { CARD_SELECTORS } from './selectors.js';
+import { parseDeliveryDates, parseImpressions, parseSpend } from './parsers.js';
+import { applyLinkAnalysis } from './links.js';
+import { enrichAd } from './enrichment.js';
+import { BloomFilter } from './bloom.js';
 
 const AD_LIBRARY_BASE = 'https://www.facebook.com/ads/library/';
 
+export type ScrollTiming = Pick<PerformanceProfile, 'scrollDelayMs' | 'seeMoreDelayMs' | 'maxNoNewAdsScrolls'>;
+
+const DEFAULT_SCROLL_TIMING: ScrollTiming = {
+  scrollDelayMs: 800,
+  seeMoreDelayMs: 500,
+  maxNoNewAdsScrolls: 2,
+};
+
 /**
- * Generate a unique fingerprint for an ad
+ * Generate a content fingerprint for an ad
+ * Changes whenever the creative changes, so it identifies creative variants
  */
-export function generateAdFingerprint(ad: Partial<MetaAd>): string {
+export function generateContentFingerprint(ad: Partial<MetaAd>): string {
   const components = [
     ad.page_id || '',
     ad.page_name || '',
-    (ad.ad_text || '').toLowerCase().replace(/\s+/g, ' ').trim().substring(0, 200),
-    (ad.media_urls?.[0] || '').split('?')[0],
+    (ad.ad_text || '').toLowerCase().replace(/\s+/g, ' ').trim(),
+    (ad.ad_creative_link_titles || []).join('\n').toLowerCase(),
+    (ad.media_urls || []).map(url => url.split('?')[0]).join('\n'),
     (ad.cta_text || '').toLowerCase(),
   ].join('|');
   
-  let hash = 0;
-  for (let i = 0; i < components.length; i++) {
-    const char = components.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash;
+  return createHash('sha256').update(components).digest('hex');
+}
+
+/**
+ * Generate the identity fingerprint for an ad
+ * Based on the Library ID when known, so the same ad keeps its fingerprint across runs and edits
+ */
+export function generateAdFingerprint(ad: Partial<MetaAd>): string {
+  if (ad.ad_archive_id) {
+    return `meta_${ad.ad_archive_id}`;
   }
   
-  return `meta_${Math.abs(hash).toString(16).padStart(8, '0')}`;
+  const contentFingerprint = ad.content_fingerprint || generateContentFingerprint(ad);
+  return `meta_c${contentFingerprint.substring(0, 32)}`;
+}
+
+/**
+ * Fill identity and content fingerprints on an ad
+ */
+export function assignFingerprints(ad: MetaAd): MetaAd {
+  ad.content_fingerprint = generateContentFingerprint(ad);
+  ad.ad_fingerprint = generateAdFingerprint(ad);
+  ad.ad_id = ad.ad_archive_id || ad.ad_fingerprint;
+  return ad;
 }
 
 /**
@@ -40,7 +74,7 @@ export function deduplicateAds(ads: MetaAd[]): MetaAd[] {
   
   for (const ad of ads) {
     if (!ad.ad_fingerprint) {
-      ad.ad_fingerprint = generateAdFingerprint(ad);
+      assignFingerprints(ad);
     }
     
     if (!seen.has(ad.ad_fingerprint)) {
@@ -57,28 +91,89 @@ export function deduplicateAds(ads: MetaAd[]): MetaAd[] {
  */
 export class DeduplicationTracker {
   private seen = new Set<string>();
+  // Claimed by a query that hasn't pushed them yet; released again if it fails
+  private pending = new Set<string>();
+  // Fingerprints already stored, synced as a list or a Bloom filter. Not part of the persisted state.
+  private stored = new Set<string>();
+  private existing: BloomFilter | null = null;
   private duplicateCount = 0;
   
-  isNew(ad: MetaAd): boolean {
-    if (!ad.ad_fingerprint) {
-      ad.ad_fingerprint = generateAdFingerprint(ad);
+  /**
+   * Ads not seen, stored or claimed by another query yet. They only count as seen once committed,
+   * so a query that fails before pushing them doesn't lose them to its own retry.
+   */
+  claim(ads: MetaAd[]): MetaAd[] {
+    const claimed: MetaAd[] = [];
+    for (const ad of ads) {
+      if (!ad.ad_fingerprint) {
+        assignFingerprints(ad);
+      }
+      
+      if (this.isKnown(ad.ad_fingerprint)) {
+        this.duplicateCount++;
+        continue;
+      }
+      
+      this.pending.add(ad.ad_fingerprint);
+      claimed.push(ad);
     }
-    
-    if (this.seen.has(ad.ad_fingerprint)) {
-      this.duplicateCount++;
-      return false;
+    return claimed;
+  }
+  
+  /**
+   * Mark claimed ads as seen, once they are pushed
+   */
+  commit(ads: MetaAd[]) {
+    for (const ad of ads) {
+      this.pending.delete(ad.ad_fingerprint);
+      this.seen.add(ad.ad_fingerprint);
     }
-    
-    this.seen.add(ad.ad_fingerprint);
-    return true;
+  }
+  
+  /**
+   * Give claimed ads back after a failure, so the retry can keep them
+   */
+  release(ads: MetaAd[]) {
+    for (const ad of ads) {
+      this.pending.delete(ad.ad_fingerprint);
+    }
+  }
+  
+  /**
+   * Seen or claimed in this run, or already stored
+   */
+  isKnown(fingerprint: string): boolean {
+    return this.seen.has(fingerprint) || this.pending.has(fingerprint) || this.stored.has(fingerprint) || !!this.existing?.has(fingerprint);
   }
   
   loadExisting(fingerprints: string[]) {
     for (const fp of fingerprints) {
-      this.seen.add(fp);
+      this.stored.add(fp);
     }
   }
   
+  /**
+   * Stored fingerprints as a Bloom filter
+   */
+  loadExistingFilter(filter: BloomFilter) {
+    this.existing = filter;
+  }
+  
+  /**
+   * Snapshot for persisting across restarts: only ads this run pushed, not claimed or stored ones
+   */
+  toState() {
+    return {
+      seen: [...this.seen],
+      duplicates: this.duplicateCount,
+    };
+  }
+  
+  restore(state: { seen: string[]; duplicates: number }) {
+    this.seen = new Set(state.seen);
+    this.duplicateCount = state.duplicates;
+  }
+  
   get stats() {
     return {
       unique: this.seen.size,
@@ -87,37 +182,62 @@ export class DeduplicationTracker {
   }
 }
 
+const SORT_MODES: Record<NonNullable<SearchFilters['sortBy']>, string> = {
+  relevancy: 'relevancy_monthly_grouped',
+  impressions: 'total_impressions',
+  newest: 'most_recent',
+};
+
 /**
  * Build the Meta Ad Library URL with filters
+ * The one place request URLs are built, for keyword and page queries alike
  */
-export function buildSearchUrl(
-  query: SearchQuery,
-  country: string,
-  adStatus: string,
-  adType: string,
-  mediaType: string
-): string {
+export function buildSearchUrl(query: SearchQuery, filters: SearchFilters): string {
   const params = new URLSearchParams({
-    active_status: adStatus === 'all' ? 'all' : adStatus,
-    ad_type: adType,
-    country: country,
-    q: query.location ? `${query.keyword} ${query.location}` : query.keyword,
-    sort_data: JSON.stringify([{ direction: 'desc', mode: 'relevancy_monthly_grouped' }]),
-    search_type: 'keyword_unordered',
-    media_type: mediaType,
+    active_status: filters.adStatus,
+    ad_type: filters.adType,
+    country: query.country || filters.country,
+    media_type: filters.mediaType,
+  });
+  
+  if (query.pageId) {
+    params.set('view_all_page_id', query.pageId);
+    params.set('search_type', 'page');
+  } else {
+    params.set('q', query.location ? `${query.keyword} ${query.location}` : query.keyword);
+    params.set('search_type', 'keyword_unordered');
+  }
+  
+  params.set('sort_data[direction]', 'desc');
+  params.set('sort_data[mode]', SORT_MODES[filters.sortBy || 'relevancy']);
+  
+  if (filters.startDate) params.set('start_date[min]', filters.startDate);
+  if (filters.endDate) params.set('start_date[max]', filters.endDate);
+  
+  (filters.contentLanguages || []).forEach((language, i) => {
+    params.set(`content_languages[${i}]`, language);
+  });
+  (filters.publisherPlatforms || []).forEach((platform, i) => {
+    params.set(`publisher_platforms[${i}]`, platform);
   });
 
   return `${AD_LIBRARY_BASE}?${params.toString()}`;
 }
 
+/**
+ * Build the Meta Ad Library URL for a single ad
+ */
+export function buildAdDetailsUrl(adArchiveId: string): string {
+  return `${AD_LIBRARY_BASE}?id=${encodeURIComponent(adArchiveId)}`;
+}
+
 /**
  * Wait for ads to load - FAST version
  */
-async function waitForAds(page: Page, timeout = 10000): Promise<boolean> {
+async function waitForAds(page: Page, cardSelector: string, timeout = 10000): Promise<boolean> {
   try {
     await Promise.race([
-      page.waitForSelector('[data-testid="ad_archive_renderer_card"]', { timeout }),
-      page.waitForSelector('div[role="article"]', { timeout }),
+      page.waitForSelector(cardSelector, { timeout }),
       page.waitForSelector('text=No ads match', { timeout: 5000 }).catch(() => null),
     ]);
     
@@ -130,17 +250,29 @@ async function waitForAds(page: Page, timeout = 10000): Promise<boolean> {
 
 /**
  * Fast scroll and load more ads
+ * When a collector is given, progress is measured by captured graphql results,
+ * and with isKnown scrolling stops at a result page of ads that are all known
  */
-async function scrollForMore(page: Page, maxAds: number): Promise<number> {
+export async function scrollForMore(
+  page: Page,
+  maxAds: number,
+  collector?: GraphQLAdCollector,
+  timing: ScrollTiming = DEFAULT_SCROLL_TIMING,
+  selectors: CardSelectors = CARD_SELECTORS,
+  isKnown?: (fingerprint: string) => boolean
+): Promise<number> {
   let previousCount = 0;
   let noNewAdsCount = 0;
-  const maxNoNewAds = 2;
+  const maxNoNewAds = timing.maxNoNewAdsScrolls;
   
   while (noNewAdsCount < maxNoNewAds) {
-    const currentCount = await page.evaluate(() => {
-      const cards = document.querySelectorAll('[data-testid="ad_archive_renderer_card"], div[role="article"]');
+    await collector?.flush();
+    
+    const domCount = await page.evaluate((cardSelector) => {
+      const cards = document.querySelectorAll(cardSelector);
       return cards.length;
-    });
+    }, selectors.card);
+    const currentCount = Math.max(domCount, collector?.size || 0);
     
     if (currentCount >= maxAds) {
       log.debug(`Reached max ads limit: ${currentCount}`);
@@ -155,17 +287,27 @@ async function scrollForMore(page: Page, maxAds: number): Promise<number> {
     
     previousCount = currentCount;
     
+    if (collector?.isExhausted) {
+      log.debug(`No more result pages after ${currentCount} ads`);
+      break;
+    }
+    
+    if (reachedKnownAds(collector, isKnown)) {
+      log.debug(`Reached a page of known ads after ${currentCount} ads`);
+      break;
+    }
+    
     await page.evaluate(() => {
       window.scrollTo(0, document.body.scrollHeight);
     });
     
-    await page.waitForTimeout(800);
+    await page.waitForTimeout(timing.scrollDelayMs);
     
     try {
       const seeMoreButton = await page.$('text=See more');
       if (seeMoreButton) {
         await seeMoreButton.click();
-        await page.waitForTimeout(500);
+        await page.waitForTimeout(timing.seeMoreDelayMs);
       }
     } catch {
       // No button, continue
@@ -175,39 +317,53 @@ async function scrollForMore(page: Page, maxAds: number): Promise<number> {
   return previousCount;
 }
 
+/**
+ * Whether the latest graphql result page held only ads the caller already knows.
+ * DOM extraction has no pages, so without graphql payloads the scroll is never cut short.
+ */
+function reachedKnownAds(collector?: GraphQLAdCollector, isKnown?: (fingerprint: string) => boolean): boolean {
+  const latest = collector?.latestPage || [];
+  return !!isKnown && latest.length > 0 && latest.every(id => isKnown(generateAdFingerprint({ ad_archive_id: id })));
+}
+
 /**
  * Extract ads from page
+ * Cards that throw while being read are skipped and counted
  */
-async function extractAdsFromPage(page: Page, query: SearchQuery): Promise<MetaAd[]> {
-  const ads = await page.evaluate((searchQuery) => {
+export async function extractAdsFromPage(
+  page: Page,
+  query: SearchQuery,
+  selectors: CardSelectors = CARD_SELECTORS
+): Promise<{ ads: MetaAd[]; skippedCards: number }> {
+  const { ads, skipped, firstError } = await page.evaluate(({ searchQuery, selectors }) => {
     const results: any[] = [];
-    const cards = document.querySelectorAll('[data-testid="ad_archive_renderer_card"], div[role="article"]');
+    let skipped = 0;
+    let firstError = '';
+    const cards = document.querySelectorAll(selectors.card);
+    const first = (root: Element, list: string[]) =>
+      list.map(selector => root.querySelector(selector)).find(Boolean) || null;
     
-    cards.forEach((card, index) => {
+    cards.forEach((card) => {
       try {
-        const pageNameEl = card.querySelector('a[href*="/ads/library/?active_status"]') ||
-                          card.querySelector('h3') ||
-                          card.querySelector('span[dir="auto"]');
+        const pageNameEl = first(card, selectors.pageName);
         const pageName = pageNameEl?.textContent?.trim() || 'Unknown';
         
         let pageId = '';
-        const pageLink = card.querySelector('a[href*="page_id="]');
+        const pageLink = card.querySelector(selectors.pageLink);
         if (pageLink) {
           const href = pageLink.getAttribute('href') || '';
           const match = href.match(/page_id=(\d+)/);
           if (match) pageId = match[1];
         }
         
-        const profileImg = card.querySelector('img[src*="scontent"]');
+        const profileImg = card.querySelector(selectors.profileImage);
         const profilePicture = profileImg?.getAttribute('src') || '';
         
-        const textContainer = card.querySelector('div[style*="webkit-line-clamp"]') ||
-                             card.querySelector('div[data-testid="ad_archive_renderer_card_body"]') ||
-                             card.querySelector('span[dir="auto"]:not(:first-child)');
+        const textContainer = first(card, selectors.body);
         const adText = textContainer?.textContent?.trim() || '';
         
-        const images = card.querySelectorAll('img:not([src*="scontent"])');
-        const videos = card.querySelectorAll('video');
+        const images = card.querySelectorAll(selectors.image);
+        const videos = card.querySelectorAll(selectors.video);
         const mediaUrls: string[] = [];
         
         images.forEach(img => {
@@ -228,8 +384,11 @@ async function extractAdsFromPage(page: Page, query: SearchQuery): Promise<MetaA
         else if (mediaUrls.length === 1) mediaType = 'image';
         
         const dateText = card.textContent || '';
-        const startDateMatch = dateText.match(/Started running on ([A-Za-z]+ \d+, \d+)/);
-        const startDate = startDateMatch ? startDateMatch[1] : '';
+        
+        // Spend, impressions and dates are parsed outside the page; only the card's metadata lines, not its ad copy
+        const cardText = (card as HTMLElement).innerText || dateText;
+        const bodyIndex = adText ? cardText.indexOf(adText) : -1;
+        const metadataText = bodyIndex > 0 ? cardText.slice(0, bodyIndex) : cardText;
         
         const isActive = !dateText.includes('Inactive') && !dateText.includes('stopped');
         
@@ -240,28 +399,31 @@ async function extractAdsFromPage(page: Page, query: SearchQuery): Promise<MetaA
         if (dateText.includes('Audience Network')) platforms.push('audience_network');
         if (platforms.length === 0) platforms.push('facebook');
         
-        let spendLower, spendUpper, impressionsLower, impressionsUpper;
-        const spendMatch = dateText.match(/\$(\d+(?:,\d+)?)\s*-\s*\$(\d+(?:,\d+)?)/);
-        if (spendMatch) {
-          spendLower = parseInt(spendMatch[1].replace(',', ''));
-          spendUpper = parseInt(spendMatch[2].replace(',', ''));
-        }
-        
-        const impMatch = dateText.match(/(\d+(?:,\d+)?)\s*-\s*(\d+(?:,\d+)?)\s*impressions/i);
-        if (impMatch) {
-          impressionsLower = parseInt(impMatch[1].replace(',', ''));
-          impressionsUpper = parseInt(impMatch[2].replace(',', ''));
-        }
+        // The outbound link, usually an l.facebook.com redirect; phone and messaging CTAs link directly
+        const outbound = Array.from(card.querySelectorAll('a[href]')).find(link => {
+          const href = link.getAttribute('href') || '';
+          return /^(tel:|https?:\/\/(l|lm)\.facebook\.com\/l\.php)/.test(href) ||
+            (/^https?:\/\//.test(href) && !/^https?:\/\/([a-z]+\.)?facebook\.com\//.test(href));
+        });
+        const landingUrl = outbound?.getAttribute('href') || '';
         
-        const ctaButton = card.querySelector('a[role="button"], button');
-        const ctaText = ctaButton?.textContent?.trim() || '';
+        // The CTA sits inside the outbound link; the card's own buttons are Ad Library controls
+        const libraryControls = /^(see ad details|see summary details|open dropdown|about this ad)$/i;
+        const ctaCandidates = [
+          ...(outbound ? Array.from(outbound.querySelectorAll('[role="button"]')) : []),
+          ...Array.from(card.querySelectorAll(selectors.cta)),
+        ];
+        const ctaText = ctaCandidates
+          .map(el => el.textContent?.trim() || '')
+          .find(text => text.length > 0 && text.length <= 30 && !libraryControls.test(text)) || '';
         
-        const timestamp = Date.now();
-        const adId = `${pageId || pageName.replace(/\s/g, '_')}_${timestamp}_${index}`;
+        const libraryIdMatch = dateText.match(/Library ID:?\s*(\d+)/);
+        const libraryId = libraryIdMatch ? libraryIdMatch[1] : undefined;
         
         results.push({
-          ad_id: adId,
+          ad_id: '',
           ad_fingerprint: '',
+          ad_archive_id: libraryId,
           page_id: pageId,
           page_name: pageName,
           page_profile_picture_url: profilePicture,
@@ -269,13 +431,10 @@ async function extractAdsFromPage(page: Page, query: SearchQuery): Promise<MetaA
           media_type: mediaType,
           media_urls: mediaUrls,
           cta_text: ctaText,
-          ad_delivery_start_time: startDate,
+          landing_page_url: landingUrl || undefined,
           is_active: isActive,
           platforms: platforms,
-          spend_lower: spendLower,
-          spend_upper: spendUpper,
-          impressions_lower: impressionsLower,
-          impressions_upper: impressionsUpper,
+          metadata_text: metadataText,
           search_query: searchQuery.keyword,
           search_location: searchQuery.location || '',
           scraped_at: new Date().toISOString(),
@@ -283,80 +442,131 @@ async function extractAdsFromPage(page: Page, query: SearchQuery): Promise<MetaA
         });
       } catch (e) {
         // Skip malformed card
+        skipped++;
+        if (!firstError) firstError = String(e);
       }
     });
     
-    return results;
-  }, query);
+    return { ads: results, skipped, firstError };
+  }, { searchQuery: query, selectors });
   
-  const adsWithFingerprints = (ads as MetaAd[]).map(ad => {
-    ad.ad_fingerprint = generateAdFingerprint(ad);
-    return ad;
-  });
+  if (skipped > 0) {
+    log.debug(`Skipped ${skipped} malformed cards for "${query.keyword}": ${firstError}`);
+  }
+  
+  return {
+    ads: (ads as (MetaAd & { metadata_text: string })[]).map(({ metadata_text, ...ad }) =>
+      assignFingerprints(applyCardMetadata(ad, metadata_text, query.country))
+    ),
+    skippedCards: skipped,
+  };
+}
+
+/**
+ * Fill spend, impressions and delivery dates from a card's metadata text, in whatever locale it's shown
+ */
+export function applyCardMetadata(ad: MetaAd, text: string, country?: string): MetaAd {
+  const spend = parseSpend(text, country);
+  if (spend) {
+    ad.spend_lower = spend.lower;
+    ad.spend_upper = spend.upper;
+    ad.currency = spend.currency;
+  }
   
-  return adsWithFingerprints;
+  const impressions = parseImpressions(text);
+  if (impressions) {
+    ad.impressions_lower = impressions.lower;
+    ad.impressions_upper = impressions.upper;
+  }
+  
+  const { start, stop } = parseDeliveryDates(text, country);
+  ad.ad_delivery_start_time = start;
+  if (!ad.is_active) ad.ad_delivery_stop_time = stop;
+  
+  return ad;
 }
 
 /**
  * Main scraping function for a single query
+ * Expects the page to already be on the query's search URL (the crawler navigates once per request)
  */
 export async function scrapeQuery(
   page: Page,
   query: SearchQuery,
-  country: string,
   maxAds: number,
-  adStatus: string,
-  adType: string,
-  mediaType: string
-): Promise<MetaAd[]> {
-  const url = buildSearchUrl(query, country, adStatus, adType, mediaType);
+  timing: ScrollTiming = DEFAULT_SCROLL_TIMING,
+  selectors: CardSelectors = CARD_SELECTORS,
+  isKnown?: (fingerprint: string) => boolean
+): Promise<ScrapeResult> {
+  // Attached by the crawler's pre-navigation hook; attaching late only misses the initial document
+  const collector = getCollector(page) || attachCollector(page);
   
-  // Navigate with retry
-  let navSuccess = false;
-  for (let attempt = 1; attempt <= 2; attempt++) {
-    try {
-      await page.goto(url, { 
-        waitUntil: 'domcontentloaded',
-        timeout: 30000 
-      });
-      navSuccess = true;
-      break;
-    } catch (error) {
-      if (attempt === 2) throw error;
-      await page.waitForTimeout(1000);
-    }
-  }
-  
-  if (!navSuccess) {
-    throw new Error('Navigation failed');
+  try {
+    return await scrapeWithCollector(page, query, maxAds, collector, timing, selectors, isKnown);
+  } finally {
+    await collector.stop();
   }
-  
+}
+
+/**
+ * Wait, scroll and extract while the collector is listening
+ */
+async function scrapeWithCollector(
+  page: Page,
+  query: SearchQuery,
+  maxAds: number,
+  collector: GraphQLAdCollector,
+  timing: ScrollTiming,
+  selectors: CardSelectors,
+  isKnown?: (fingerprint: string) => boolean
+): Promise<ScrapeResult> {
   // Wait for ads to load
-  const loaded = await waitForAds(page);
-  if (!loaded) {
-    log.warning(`No ads loaded for "${query.keyword}"`);
-    return [];
-  }
+  await waitForAds(page, selectors.card);
+  await collector.flush();
   
-  // Check for blocking
-  const pageContent = await page.content();
-  if (pageContent.includes('Please try again later') || 
-      pageContent.includes('something went wrong')) {
-    throw new Error('Rate limited or blocked');
+  // Tell empty results apart from login walls, rate limits and captchas
+  let state = await classifyPage(page, selectors.card);
+  if (state !== 'results' && !isBlocked(state) && collector.size > 0) {
+    state = 'results';
   }
   
-  // Check for no results
-  if (pageContent.includes('No ads match') || 
-      pageContent.includes('no results')) {
+  if (state === 'empty') {
     log.info(`No ads found for "${query.keyword}"`);
-    return [];
+    return { ads: [], source: 'empty', skippedCards: 0 };
+  }
+  if (state !== 'results') {
+    throw new BlockedError(state, `No ads loaded for "${query.keyword}" (${state})`);
   }
   
   // Scroll to load more ads
-  await scrollForMore(page, maxAds);
+  await scrollForMore(page, maxAds, collector, timing, selectors, isKnown);
+  await collector.flush();
+  const caughtUp = !collector.isExhausted && reachedKnownAds(collector, isKnown);
   
-  // Extract ads
-  const ads = await extractAdsFromPage(page, query);
+  // Prefer network payloads, fall back to DOM extraction
+  let ads: MetaAd[];
+  let skippedCards = 0;
+  const source = collector.size > 0 ? 'graphql' : 'dom';
+  if (source === 'graphql') {
+    ads = collector.toAds(query, page.url()).map(assignFingerprints);
+    log.debug(`Captured ${ads.length} ads from graphql for "${query.keyword}"`);
+  } else {
+    log.debug(`No graphql payload for "${query.keyword}", using DOM extraction`);
+    ({ ads, skippedCards } = await extractAdsFromPage(page, query, selectors));
+  }
+  
+  for (const ad of ads) {
+    applyLinkAnalysis(ad);
+    enrichAd(ad, query);
+    
+    ad.search_city = query.city;
+    ad.search_state = query.state;
+    ad.search_country = query.country;
+    ad.category = query.category;
+    
+    // Page queries know their advertiser even when a card doesn't link it
+    if (query.pageId && !ad.page_id) ad.page_id = query.pageId;
+  }
   
-  return ads.slice(0, maxAds);
+  return { ads: ads.slice(0, maxAds), source, skippedCards, caughtUp };
 }
@@ -0,0 +1,44 @@
+/**
+ * DOM selectors for Ad Library result cards
+ * Shared by extraction, page classification and the replay harness, and overridable from the input
+ */
+
+import { CardSelectors } from './types.js';
+
+/**
+ * Selectors used for DOM extraction. Lists are tried in order, the first match wins.
+ * The replay harness reports which of these still match its fixture pages.
+ */
+export const CARD_SELECTORS: CardSelectors = {
+  card: '[data-testid="ad_archive_renderer_card"], div[role="article"]',
+  pageName: ['a[href*="/ads/library/?active_status"]', 'h3', 'span[dir="auto"]'],
+  pageLink: 'a[href*="page_id="]',
+  profileImage: 'img[src*="scontent"]',
+  body: ['div[style*="webkit-line-clamp"]', 'div[data-testid="ad_archive_renderer_card_body"]', 'span[dir="auto"]:not(:first-child)'],
+  image: 'img:not([src*="scontent"])',
+  video: 'video',
+  cta: 'a[role="button"], button, div[role="button"]',
+};
+
+/**
+ * The default selectors with any the input overrides. A single string is accepted for a fallback list.
+ */
+export function resolveSelectors(overrides: Partial<CardSelectors> = {}): CardSelectors {
+  const selectors = { ...CARD_SELECTORS };
+
+  for (const [name, value] of Object.entries(overrides) as [keyof CardSelectors, unknown][]) {
+    if (value === undefined || value === null) continue;
+    if (!(name in CARD_SELECTORS)) {
+      throw new Error('Unknown selector "' + name + '", expected one of: ' + Object.keys(CARD_SELECTORS).join(', '));
+    }
+
+    const isList = Array.isArray(CARD_SELECTORS[name]);
+    const list = Array.isArray(value) ? value : [value];
+    if (list.length === 0 || list.some(item => typeof item !== 'string' || !item.trim()) || (!isList && list.length > 1)) {
+      throw new Error('Selector "' + name + '" must be ' + (isList ? 'a CSS selector or a list of them' : 'a CSS selector'));
+    }
+    (selectors as Record<string, string | string[]>)[name] = isList ? list : list[0];
+  }
+
+  return selectors;
+}
@@ -0,0 +1,255 @@
+/**
+ * Output sinks for Meta Ads Library Scraper
+ * Every run pushes to its dataset; the webhook, a direct Postgres upsert and S3 file exports can run alongside it
+ */
+
+import pg from 'pg';
+import { Actor } from 'apify';
+import { log } from 'crawlee';
+import { WebhookClient } from './webhook.js';
+import { S3Client, s3ClientFromInput } from './s3.js';
+import { CONTENT_TYPES, ExportFormat, encodeAds } from './formats.js';
+import { toAdRow } from './ad-row.js';
+import { ActorInput, CreativeGrouping, MetaAd, QueryScrape, SearchQuery, WebhookPayload } from './types.js';
+
+export interface OutputSink {
+  readonly name: string;
+  // New ads from one query
+  write(ads: MetaAd[], query: SearchQuery): Promise<void>;
+  // Every running ad a query returned, duplicates included, for lifecycle tracking, and how the query's scrape went
+  observe(query: SearchQuery, activeFingerprints: string[], scrape: QueryScrape): Promise<void>;
+  // End of run. Reconcilable queries saw their full result set, so ads they no longer return have stopped.
+  finish(reconcilableQueries: SearchQuery[]): Promise<void>;
+  readonly stats: Record<string, number>;
+}
+
+/**
+ * The Supabase import-ads webhook: ad batches, observations and end-of-run reconciliation
+ */
+export class WebhookSink implements OutputSink {
+  readonly name = 'webhook';
+
+  constructor(
+    private client: WebhookClient,
+    private batchSize = 100,
+    public batchNumber = 0,
+    private grouping?: CreativeGrouping
+  ) {}
+
+  private async send(
+    ads: MetaAd[],
+    query: SearchQuery,
+    isFinal = false,
+    lifecycle: Pick<WebhookPayload, 'observedFingerprints' | 'reconcile' | 'scrape'> = {}
+  ) {
+    if (ads.length === 0 && !lifecycle.observedFingerprints?.length && !lifecycle.reconcile && !lifecycle.scrape) return;
+
+    this.batchNumber++;
+    await this.client.send({
+      actorRunId: Actor.getEnv().actorRunId || 'unknown',
+      batchNumber: this.batchNumber,
+      ads,
+      query,
+      timestamp: new Date().toISOString(),
+      isFinal,
+      ...(ads.length > 0 && this.grouping ? { grouping: this.grouping } : {}),
+      ...lifecycle,
+    });
+  }
+
+  async write(ads: MetaAd[], query: SearchQuery) {
+    for (let i = 0; i < ads.length; i += this.batchSize) {
+      await this.send(ads.slice(i, i + this.batchSize), query);
+    }
+  }
+
+  async observe(query: SearchQuery, activeFingerprints: string[], scrape: QueryScrape) {
+    await this.send([], query, false, { observedFingerprints: activeFingerprints, scrape });
+  }
+
+  async finish(reconcilableQueries: SearchQuery[]) {
+    for (let i = 0; i < reconcilableQueries.length; i++) {
+      await this.send([], reconcilableQueries[i], i === reconcilableQueries.length - 1, { reconcile: true });
+    }
+    if (reconcilableQueries.length > 0) {
+      log.info('Reconciled ' + reconcilableQueries.length + ' queries');
+    }
+  }
+
+  get stats() {
+    return { batches: this.batchNumber, ...this.client.stats };
+  }
+}
+
+function quoteIdent(name: string): string {
+  return '"' + name.replace(/"/g, '""') + '"';
+}
+
+/**
+ * Upserts ads straight into a Postgres ads table (001_create_ads_table.sql) on ad_fingerprint.
+ * Only columns the table has are written, so databases without the later migrations work too.
+ */
+export class PostgresSink implements OutputSink {
+  readonly name = 'postgres';
+  private pool: pg.Pool;
+  private columns: Promise<Map<string, string>> | null = null;
+  private upserted = 0;
+  private failed = 0;
+
+  constructor(connectionString: string, private table = 'ads', private batchSize = 100) {
+    this.pool = new pg.Pool({ connectionString, max: 2 });
+  }
+
+  /**
+   * The table's columns and their types
+   */
+  private loadColumns(): Promise<Map<string, string>> {
+    this.columns ||= this.pool.query(
+      `SELECT attname, format_type(atttypid, atttypmod) AS type
+       FROM pg_attribute WHERE attrelid = $1::regclass AND attnum > 0 AND NOT attisdropped`,
+      [this.table]
+    ).then(
+      result => new Map(result.rows.map(row => [row.attname as string, row.type as string])),
+      error => {
+        // Look again on the next batch, e.g. once the migration has run
+        this.columns = null;
+        throw error;
+      }
+    );
+    return this.columns;
+  }
+
+  private async upsert(ads: MetaAd[]) {
+    const columns = await this.loadColumns();
+    const names = Object.keys(toAdRow(ads[0])).filter(name => columns.has(name));
+    const isJson = names.map(name => /^jsonb?$/.test(columns.get(name) || ''));
+
+    const values: unknown[] = [];
+    const tuples = ads.map(ad => {
+      const row = toAdRow(ad);
+      const placeholders = names.map((name, i) => {
+        const value = row[name] ?? null;
+        values.push(isJson[i] && value !== null ? JSON.stringify(value) : value);
+        return '$' + values.length;
+      });
+      return '(' + placeholders.join(', ') + ')';
+    });
+
+    const updates = names
+      .filter(name => name !== 'ad_fingerprint')
+      .map(name => `${quoteIdent(name)} = EXCLUDED.${quoteIdent(name)}`);
+
+    await this.pool.query(
+      `INSERT INTO ${this.table.split('.').map(quoteIdent).join('.')} (${names.map(quoteIdent).join(', ')})
+       VALUES ${tuples.join(', ')}
+       ON CONFLICT (ad_fingerprint) DO UPDATE SET ${updates.join(', ')}`,
+      values
+    );
+  }
+
+  async write(ads: MetaAd[]) {
+    // The same ad can't be updated twice by one statement
+    const unique = [...new Map(ads.map(ad => [ad.ad_fingerprint, ad])).values()];
+
+    for (let i = 0; i < unique.length; i += this.batchSize) {
+      const batch = unique.slice(i, i + this.batchSize);
+      try {
+        await this.upsert(batch);
+        this.upserted += batch.length;
+      } catch (error) {
+        this.failed += batch.length;
+        log.error('Postgres upsert of ' + batch.length + ' ads failed: ' + (error instanceof Error ? error.message : error));
+      }
+    }
+  }
+
+  async observe() {}
+
+  async finish() {
+    await this.pool.end();
+  }
+
+  get stats() {
+    return { upserted: this.upserted, failed: this.failed };
+  }
+}
+
+/**
+ * Exports the run's dataset to an S3-compatible bucket as part files, one per format:
+ * `<prefix>/<run id>/ads-00001.parquet`. Read from the dataset at the end so resumed runs export everything.
+ */
+export class FileExportSink implements OutputSink {
+  readonly name = 'files';
+  private files = 0;
+  private rows = 0;
+  private failed = 0;
+
+  constructor(
+    private client: S3Client,
+    private formats: ExportFormat[],
+    private prefix = 'meta-ads',
+    private partSize = 10000
+  ) {}
+
+  async write() {}
+
+  async observe() {}
+
+  async finish() {
+    const runId = Actor.getEnv().actorRunId || 'local-' + new Date().toISOString().replace(/[:.]/g, '-');
+    const base = this.prefix.replace(/\/+$/, '') + '/' + runId;
+    const dataset = await Actor.openDataset();
+
+    for (let offset = 0, part = 1; ; offset += this.partSize, part++) {
+      const { items } = await dataset.getData({ offset, limit: this.partSize, clean: true });
+      if (items.length === 0) break;
+
+      for (const format of this.formats) {
+        const key = `${base}/ads-${String(part).padStart(5, '0')}.${format}`;
+        try {
+          await this.client.putObject(key, encodeAds(items as MetaAd[], format), CONTENT_TYPES[format]);
+          this.files++;
+        } catch (error) {
+          this.failed++;
+          log.error('Export of ' + key + ' failed: ' + (error instanceof Error ? error.message : error));
+        }
+      }
+      this.rows += items.length;
+      if (items.length < this.partSize) break;
+    }
+
+    log.info('Exported ' + this.rows + ' ads as ' + this.files + ' files to ' + this.client.objectUrl(base + '/'));
+  }
+
+  get stats() {
+    return { files: this.files, rows: this.rows, failed: this.failed };
+  }
+}
+
+/**
+ * The sinks the input configures, besides the dataset every run writes to
+ */
+export function createSinks(input: ActorInput, webhook: WebhookClient | null): OutputSink[] {
+  const sinks: OutputSink[] = [];
+
+  if (webhook) {
+    const grouping = input.groupCreatives
+      ? { hashDistance: input.creativeHashDistance ?? 6, copySimilarity: (input.copySimilarityPercent || 70) / 100 }
+      : undefined;
+    // Batch numbers start at 0; a resumed run sets batchNumber from its saved state
+    sinks.push(new WebhookSink(webhook, input.webhookBatchSize || 100, 0, grouping));
+  }
+  if (input.postgresUrl) {
+    sinks.push(new PostgresSink(input.postgresUrl, input.postgresTable || 'ads', input.postgresBatchSize || 100));
+  }
+  if (input.exportFormats && input.exportFormats.length > 0) {
+    sinks.push(new FileExportSink(
+      s3ClientFromInput(input, 'File export'),
+      input.exportFormats,
+      input.exportPrefix || 'meta-ads',
+      input.exportPartSize || 10000
+    ));
+  }
+
+  return sinks;
+}
@@ -0,0 +1,33 @@
+/**
+ * Crawl state persistence for resumable runs
+ * Saved to the key-value store so a migrated or restarted run picks up where it left off
+ */
+
+import { Actor } from 'apify';
+import { CrawlState } from './types.js';
+
+const CRAWL_STATE_KEY = 'CRAWL_STATE';
+
+/**
+ * Load state saved by an earlier attempt of this run, if any
+ */
+export async function loadCrawlState(): Promise<CrawlState | null> {
+  return Actor.getValue<CrawlState>(CRAWL_STATE_KEY);
+}
+
+export async function saveCrawlState(state: CrawlState): Promise<void> {
+  await Actor.setValue(CRAWL_STATE_KEY, state);
+}
+
+/**
+ * Persist state whenever the platform asks for it or the run is about to move
+ */
+export function persistOnEvents(getState: () => CrawlState) {
+  const persist = async () => {
+    await saveCrawlState(getState());
+  };
+  
+  Actor.on('persistState', persist);
+  Actor.on('migrating', persist);
+  Actor.on('aborting', persist);
+}
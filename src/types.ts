@@ -5,6 +5,19 @@
 export interface SearchQuery {
   keyword: string;
   location?: string;
+  // Pull every ad a known advertiser runs (Ad Library view_all_page_id); keyword is then only a label
+  pageId?: string;
+  // Overrides ActorInput.country for this query
+  country?: string;
+  // Structured location, parsed from `location` or set by expansion
+  city?: string;
+  state?: string;
+  // Expansion: one query per location, or per city of `state` when no location is given
+  locations?: string[];
+  // Lower numbers are crawled first
+  priority?: number;
+  // Vertical for reporting, e.g. "golf-carts"; carried through to each ad
+  category?: string;
 }
 
 export interface ProxyConfig {
@@ -13,29 +26,192 @@ export interface ProxyConfig {
   proxyUrls?: string[];
 }
 
-export interface ActorInput {
+export type ProfileName = 'stealth' | 'balanced' | 'aggressive';
+
+export interface PerformanceProfile {
+  maxConcurrency: number;
+  maxRequestsPerMinute: number;
+  requestHandlerTimeoutSecs: number;
+  navigationTimeoutSecs: number;
+  maxRequestRetries: number;
+  maxOpenPagesPerBrowser: number;
+  retireBrowserAfterPageCount: number;
+  scrollDelayMs: number;
+  seeMoreDelayMs: number;
+  maxNoNewAdsScrolls: number;
+  // Abort image, font and video requests; media URLs are still read from attributes and payloads
+  blockResources: boolean;
+}
+
+export interface ActorInput extends Partial<PerformanceProfile> {
   searchQueries: SearchQuery[];
+  queryFileUrl?: string;
+  queryFileKey?: string;
+  queryFileFormat?: 'csv' | 'json' | 'ndjson';
   country: string;
+  regions?: Record<string, string[]>;
   maxAdsPerQuery: number;
   adStatus: 'active' | 'inactive' | 'all';
   adType: 'all' | 'political_and_issue_ads' | 'housing_ads' | 'employment_ads' | 'credit_ads';
   mediaType: 'all' | 'image' | 'video' | 'meme' | 'none';
+  startDate?: string;
+  endDate?: string;
+  contentLanguages?: string[];
+  publisherPlatforms?: ('facebook' | 'instagram' | 'messenger' | 'audience_network' | 'threads')[];
+  sortBy?: 'relevancy' | 'impressions' | 'newest';
   scrapeAdDetails: boolean;
+  performanceProfile?: ProfileName;
   proxyConfiguration?: ProxyConfig;
   webhookUrl?: string;
+  webhookSecret?: string;
   webhookBatchSize?: number;
+  webhookMaxRetries?: number;
+  replayDeadLetters?: boolean;
+  // get-fingerprints endpoint for skipping ads already stored, and the monitor baseline
+  fingerprintsUrl?: string;
+  fingerprintFormat?: 'bloom' | 'list';
+  fingerprintMaxAgeDays?: number;
+  // Queries an earlier run scraped within this many hours are skipped, or scanned only until known ads
+  minRefreshHours?: number;
+  freshQueryAction?: 'skip' | 'incremental';
+  archiveMedia?: boolean;
+  mediaStorage?: 'kv' | 's3';
+  mediaKeyValueStore?: string;
+  mediaMaxBytes?: number;
+  s3Endpoint?: string;
+  s3Bucket?: string;
+  s3Region?: string;
+  s3AccessKeyId?: string;
+  s3SecretAccessKey?: string;
+  s3PublicUrl?: string;
+  postgresUrl?: string;
+  postgresTable?: string;
+  postgresBatchSize?: number;
+  exportFormats?: ('ndjson' | 'csv' | 'parquet')[];
+  exportPrefix?: string;
+  exportPartSize?: number;
+  groupCreatives?: boolean;
+  creativeHashDistance?: number;
+  copySimilarityPercent?: number;
+  relevanceThreshold?: number;
+  relevanceAction?: 'drop' | 'flag';
+  monitorMode?: boolean;
+  alertWebhookUrl?: string;
+  alertRules?: AlertRules;
+  selectors?: Partial<CardSelectors>;
+  // Minimum percent of ads with each field filled, e.g. { "page_id": 95, "ad_text": 80 }
+  minFillRates?: Record<string, number>;
+  healthAction?: 'alert' | 'fail';
+}
+
+/**
+ * CSS selectors for DOM extraction. Lists are fallbacks, tried in order.
+ */
+export interface CardSelectors {
+  card: string;
+  pageName: string[];
+  pageLink: string;
+  profileImage: string;
+  body: string[];
+  image: string;
+  video: string;
+  cta: string;
+}
+
+/**
+ * What one query's scrape produced and how
+ */
+export interface ScrapeResult {
+  ads: MetaAd[];
+  // 'empty' when the search had no results
+  source: 'graphql' | 'dom' | 'empty';
+  // Cards DOM extraction had to drop because reading them threw
+  skippedCards: number;
+  // Scrolling stopped at a result page of already-known ads, so the result set is partial
+  caughtUp?: boolean;
+}
+
+/**
+ * Extraction health of one query: how many ads had each field filled
+ */
+export interface QueryHealth {
+  keyword: string;
+  location: string;
+  source: ScrapeResult['source'];
+  ads: number;
+  skippedCards: number;
+  filled: Record<string, number>;
+}
+
+export interface ExtractionSummary {
+  queries: number;
+  emptyQueries: number;
+  ads: number;
+  skippedCards: number;
+  bySource: Record<string, number>;
+  // Share of ads (0-1) with each field filled, over queries that returned results
+  fillRates: Record<string, number>;
+  byQuery: (Omit<QueryHealth, 'filled'> & { fillRates: Record<string, number> })[];
+}
+
+export interface FillRateViolation {
+  field: string;
+  // Percent
+  rate: number;
+  min: number;
+}
+
+/**
+ * Sent to the alert webhook when fill rates fall below their minimums
+ */
+export interface HealthAlert {
+  type: 'extraction_health';
+  runId: string;
+  generatedAt: string;
+  violations: FillRateViolation[];
+  extraction: Omit<ExtractionSummary, 'byQuery'>;
+}
+
+/**
+ * Ad Library search filters shared by every query in a run
+ */
+export type SearchFilters = Pick<
+  ActorInput,
+  'country' | 'adStatus' | 'adType' | 'mediaType' | 'startDate' | 'endDate' | 'contentLanguages' | 'publisherPlatforms' | 'sortBy'
+>;
+
+/**
+ * A creative copied out of the expiring CDN, addressed by the SHA-256 of its bytes
+ */
+export interface ArchivedMedia {
+  source_url: string;
+  url: string;
+  sha256: string;
+  content_type: string;
+  bytes: number;
+}
+
+/**
+ * An offer found in ad copy, e.g. { type: 'percent_off', text: '20% off', value: 20 }
+ */
+export interface AdOffer {
+  type: 'percent_off' | 'amount_off' | 'price' | 'financing' | 'free';
+  text: string;
+  value?: number;
 }
 
 export interface MetaAd {
   // Identifiers
   ad_id: string;
   ad_fingerprint: string;
+  content_fingerprint?: string;
   ad_archive_id?: string;
   page_id: string;
   page_name: string;
   page_profile_picture_url?: string;
   page_profile_uri?: string;
   page_likes?: number;
+  page_instagram_handle?: string;
   
   // Ad content
   ad_text?: string;
@@ -45,12 +221,39 @@ export interface MetaAd {
   ad_creative_link_descriptions?: string[];
   cta_text?: string;
   cta_type?: string;
+  cta_category?: 'call' | 'message' | 'booking' | 'lead' | 'shop' | 'app' | 'website' | 'other';
+  
+  // Destination
+  landing_page_url?: string;
+  landing_domain?: string;
+  utm_params?: Record<string, string>;
+  
+  // Enrichment from the ad copy
+  phone_numbers?: string[];
+  offers?: AdOffer[];
+  offer_types?: AdOffer['type'][];
+  promo_codes?: string[];
+  mentioned_cities?: string[];
+  matched_keywords?: string[];
+  
+  // Relevance to the originating query
+  relevance_score?: number;
+  relevance_signals?: string[];
+  is_relevant?: boolean;
   
   // Media
   media_type?: 'image' | 'video' | 'carousel' | 'none';
   media_urls?: string[];
   thumbnail_url?: string;
   video_url?: string;
+  archived_media?: ArchivedMedia[];
+  archived_thumbnail_url?: string;
+  archived_video_url?: string;
+  
+  // Creative grouping
+  perceptual_hashes?: string[];
+  creative_group_id?: string;
+  copy_group_id?: string;
   
   // Delivery info
   ad_delivery_start_time?: string;
@@ -79,10 +282,46 @@ export interface MetaAd {
   // Metadata
   search_query: string;
   search_location?: string;
+  search_city?: string;
+  search_state?: string;
+  search_country?: string;
+  category?: string;
   scraped_at: string;
   source_url: string;
 }
 
+export interface CrawlState {
+  startedAt: number;
+  completedQueryKeys: string[];
+  reconcilableQueries: SearchQuery[];
+  runFingerprints: string[];
+  totalProcessed: number;
+  queriesCompleted: number;
+  batchNumber: number;
+  dedupe: {
+    seen: string[];
+    duplicates: number;
+  };
+  webhook?: {
+    delivered: number;
+    failed: number;
+  };
+  media?: {
+    stored: number;
+    reused: number;
+    failed: number;
+    bytes: number;
+  };
+  relevanceDropped?: number;
+  monitor?: MonitorState;
+  extraction?: QueryHealth[];
+  creativeGroups?: {
+    visual: { id: string; hashes: string[] }[];
+    // Word sets rather than ad copy; text only in state saved by older builds
+    copy: { id: string; pageId: string; words?: string[]; text?: string }[];
+  };
+}
+
 export interface WebhookPayload {
   actorRunId: string;
   batchNumber: number;
@@ -90,4 +329,102 @@ export interface WebhookPayload {
   query: SearchQuery;
   timestamp: string;
   isFinal: boolean;
+  // Fingerprints of every running ad the query returned (lifecycle tracking)
+  observedFingerprints?: string[];
+  // Mark ads previously seen for this query but not observed in this run as stopped
+  reconcile?: boolean;
+  // The query finished successfully (query freshness)
+  scrape?: QueryScrape;
+  // Thresholds the ads were grouped with, so import-ads links them to stored groups the same way
+  grouping?: CreativeGrouping;
+}
+
+export interface CreativeGrouping {
+  // Most differing bits of 64 for images to count as the same creative
+  hashDistance: number;
+  // Least share (0-1) of words two ads' copy must share
+  copySimilarity: number;
+}
+
+export interface QueryScrape {
+  // Ads the search returned, duplicates included
+  adCount: number;
+  // Full result set: not capped at maxAdsPerQuery or cut short at known ads
+  complete: boolean;
+}
+
+/**
+ * When get-fingerprints last saw a query scraped
+ */
+export interface QueryFreshness {
+  keyword: string;
+  location: string;
+  country?: string;
+  lastScrapedAt: string;
+  adCount: number;
+  complete: boolean;
+}
+
+/**
+ * The fields of an ad that monitor mode compares between runs
+ */
+export interface SnapshotAd {
+  ad_fingerprint: string;
+  page_id: string;
+  page_name: string;
+  is_active: boolean;
+  spend_lower?: number;
+  spend_upper?: number;
+  currency?: string;
+}
+
+export interface MonitorState {
+  observed: Record<string, { query: SearchQuery; ads: SnapshotAd[]; complete: boolean }>;
+}
+
+/**
+ * Which changes trigger the alert webhook. Every change type is on unless set to false.
+ */
+export interface AlertRules {
+  newAds?: boolean;
+  stoppedAds?: boolean;
+  newAdvertisers?: boolean;
+  spendChanges?: boolean;
+  // Only alert when at least this many changes qualify
+  minChanges?: number;
+  // Only changes from these advertisers
+  watchPageIds?: string[];
+}
+
+export interface QueryChanges {
+  query: SearchQuery;
+  // Stopped ads are only detected for queries whose full result set was seen
+  complete: boolean;
+  // False the first time a query is monitored; it reports no changes
+  hasBaseline: boolean;
+  newAds: SnapshotAd[];
+  stoppedAds: SnapshotAd[];
+  newAdvertisers: { page_id: string; page_name: string; ads: number }[];
+  spendChanges: {
+    ad_fingerprint: string;
+    page_id: string;
+    page_name: string;
+    before: { lower?: number; upper?: number };
+    after: { lower?: number; upper?: number };
+    currency?: string;
+  }[];
+}
+
+export interface ChangeReport {
+  runId: string;
+  generatedAt: string;
+  baselineSource: 'endpoint' | 'key-value-store' | 'none';
+  totals: {
+    queries: number;
+    newAds: number;
+    stoppedAds: number;
+    newAdvertisers: number;
+    spendChanges: number;
+  };
+  queries: QueryChanges[];
 }
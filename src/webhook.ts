@@ -0,0 +1,200 @@
+/**
+ * Webhook delivery for Meta Ads Library Scraper
+ * Retries with exponential backoff, idempotency keys and a dead-letter dataset
+ */
+
+import { createHash, createHmac } from 'crypto';
+import { Actor } from 'apify';
+import { log } from 'crawlee';
+import { WebhookPayload } from './types.js';
+
+const DEAD_LETTER_DATASET = 'webhook-dead-letter';
+// Batches a replay is about to write back, in the key-value store of the same name
+const PENDING_KEY = 'REPLAY_PENDING';
+const MAX_BACKOFF_MS = 30000;
+
+export interface DeadLetter {
+  idempotencyKey: string;
+  payload: WebhookPayload;
+  error: string;
+  attempts: number;
+  failedAt: string;
+}
+
+/**
+ * Deterministic key for a batch: the same run, query and contents always produce the same key,
+ * so a batch resent after a retry or restart is recognized by import-ads
+ */
+export function buildIdempotencyKey(payload: WebhookPayload): string {
+  const { query } = payload;
+  const components = [
+    payload.actorRunId,
+    query.pageId || '',
+    query.keyword,
+    query.location || '',
+    payload.ads.map(ad => ad.ad_fingerprint).join(','),
+    (payload.observedFingerprints || []).join(','),
+    payload.reconcile ? 'reconcile' : '',
+  ].join('|');
+
+  return createHash('sha256').update(components).digest('hex');
+}
+
+/**
+ * HMAC-SHA256 signature headers over `${timestamp}.${body}`, verified by the edge functions
+ */
+export function signatureHeaders(body: string, secret?: string): Record<string, string> {
+  if (!secret) return {};
+
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+  return {
+    'X-Signature': 'sha256=' + signature,
+    'X-Signature-Timestamp': timestamp,
+  };
+}
+
+function isRetryable(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+function backoffDelay(attempt: number, baseDelayMs: number): number {
+  const exponential = baseDelayMs * 2 ** (attempt - 1);
+  return Math.min(exponential + Math.random() * baseDelayMs, MAX_BACKOFF_MS);
+}
+
+export class WebhookClient {
+  private delivered = 0;
+  private failed = 0;
+
+  constructor(
+    private url: string,
+    private secret?: string,
+    private maxRetries = 5,
+    private baseDelayMs = 1000
+  ) {}
+
+  /**
+   * Deliver a payload, dead-lettering it when every attempt fails
+   */
+  async send(payload: WebhookPayload): Promise<boolean> {
+    const idempotencyKey = buildIdempotencyKey(payload);
+    const { delivered, error, attempts } = await this.deliver(payload, idempotencyKey);
+    if (delivered) return true;
+
+    log.error(`Webhook batch ${payload.batchNumber} dead-lettered after ${attempts} attempts: ${error}`);
+
+    const deadLetter: DeadLetter = {
+      idempotencyKey,
+      payload,
+      error,
+      attempts,
+      failedAt: new Date().toISOString(),
+    };
+    const dataset = await Actor.openDataset(DEAD_LETTER_DATASET);
+    await dataset.pushData(deadLetter);
+
+    return false;
+  }
+
+  /**
+   * POST with retries and backoff; failures are counted but not dead-lettered
+   */
+  private async deliver(payload: WebhookPayload, idempotencyKey: string): Promise<{ delivered: boolean; error: string; attempts: number }> {
+    const body = JSON.stringify(payload);
+    let lastError = '';
+    let attempt = 0;
+
+    while (attempt <= this.maxRetries) {
+      attempt++;
+
+      try {
+        const response = await fetch(this.url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Idempotency-Key': idempotencyKey,
+            'X-Actor-Run-Id': payload.actorRunId,
+            'X-Batch-Number': String(payload.batchNumber),
+            'X-Is-Final': String(payload.isFinal),
+            // Signed per attempt so retries stay inside the timestamp window
+            ...signatureHeaders(body, this.secret),
+          },
+          body,
+        });
+
+        if (response.ok) {
+          this.delivered++;
+          return { delivered: true, error: '', attempts: attempt };
+        }
+
+        lastError = 'HTTP ' + response.status;
+        if (!isRetryable(response.status)) break;
+      } catch (error) {
+        lastError = String(error);
+      }
+
+      if (attempt <= this.maxRetries) {
+        const delay = backoffDelay(attempt, this.baseDelayMs);
+        log.warning(`Webhook batch ${payload.batchNumber} failed (${lastError}), retry ${attempt}/${this.maxRetries} in ${Math.round(delay)}ms`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+
+    this.failed++;
+    return { delivered: false, error: lastError, attempts: attempt };
+  }
+
+  /**
+   * Resend every dead-lettered batch. Batches that fail again are kept for the next replay.
+   * Batches import-ads already stored are acknowledged as replays, so resending is safe.
+   *
+   * Datasets can't delete items, so the dataset is only rebuilt after every batch was tried, and the
+   * batches to keep are stashed first: a crash at any point leaves each undelivered batch stored somewhere.
+   */
+  async replayDeadLetters(): Promise<{ replayed: number; stillFailing: number }> {
+    const dataset = await Actor.openDataset(DEAD_LETTER_DATASET);
+    const store = await Actor.openKeyValueStore(DEAD_LETTER_DATASET);
+    const { items } = await dataset.getData();
+    const stashed = await store.getValue<DeadLetter[]>(PENDING_KEY) || [];
+
+    // A crashed replay's stash may repeat batches still in the dataset
+    const deadLetters = [...new Map([...items as DeadLetter[], ...stashed].map(item => [item.idempotencyKey, item])).values()];
+    if (deadLetters.length === 0) {
+      return { replayed: 0, stillFailing: 0 };
+    }
+
+    log.info('Replaying ' + deadLetters.length + ' dead-lettered webhook batches');
+
+    const kept: DeadLetter[] = [];
+    for (const deadLetter of deadLetters) {
+      const { delivered, error, attempts } = await this.deliver(deadLetter.payload, deadLetter.idempotencyKey);
+      if (!delivered) {
+        kept.push({ ...deadLetter, error, attempts: deadLetter.attempts + attempts, failedAt: new Date().toISOString() });
+      }
+    }
+
+    await store.setValue(PENDING_KEY, kept);
+    await dataset.drop();
+    if (kept.length > 0) {
+      const fresh = await Actor.openDataset(DEAD_LETTER_DATASET);
+      await fresh.pushData(kept);
+    }
+    await store.setValue(PENDING_KEY, null);
+
+    return { replayed: deadLetters.length - kept.length, stillFailing: kept.length };
+  }
+
+  get stats() {
+    return {
+      delivered: this.delivered,
+      failed: this.failed,
+    };
+  }
+
+  restore(stats: { delivered: number; failed: number }) {
+    this.delivered = stats.delivered;
+    this.failed = stats.failed;
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Bloom filter for the get-fingerprints compact transfer format
+ * Must hash exactly like the Actor's src/bloom.ts: FNV-1a over UTF-8 with two offset bases,
+ * bit i of k at (h1 + i * h2) mod m, bits packed LSB first
+ */
+
+import { encode as encodeBase64 } from 'https://deno.land/std@0.168.0/encoding/base64.ts'
+
+const FNV_PRIME = 0x01000193
+const SEED_1 = 0x811c9dc5
+const SEED_2 = 0x5bd1e995
+
+export interface BloomGeometry {
+  m: number
+  k: number
+}
+
+function fnv1a(bytes: Uint8Array, seed: number): number {
+  let hash = seed
+  for (const byte of bytes) {
+    hash ^= byte
+    hash = Math.imul(hash, FNV_PRIME)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Bits and hash count for n items at the given false positive rate
+ */
+export function bloomGeometry(n: number, falsePositiveRate: number): BloomGeometry {
+  const items = Math.max(n, 1)
+  const bits = Math.ceil(-items * Math.log(falsePositiveRate) / (Math.LN2 * Math.LN2))
+  const m = Math.max(64, Math.ceil(bits / 8) * 8)
+  const k = Math.min(24, Math.max(1, Math.round(m / items * Math.LN2)))
+  return { m, k }
+}
+
+export class BloomFilter {
+  readonly bits: Uint8Array
+  count = 0
+
+  constructor(readonly m: number, readonly k: number) {
+    this.bits = new Uint8Array(Math.ceil(m / 8))
+  }
+
+  add(value: string) {
+    const bytes = new TextEncoder().encode(value)
+    const h1 = fnv1a(bytes, SEED_1)
+    const h2 = fnv1a(bytes, SEED_2) | 1
+    for (let i = 0; i < this.k; i++) {
+      const bit = (h1 + i * (h2 >>> 0)) % this.m
+      this.bits[bit >> 3] |= 1 << (bit & 7)
+    }
+    this.count++
+  }
+
+  toJSON() {
+    return { m: this.m, k: this.k, count: this.count, bits: encodeBase64(this.bits) }
+  }
+}
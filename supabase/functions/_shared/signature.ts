@@ -0,0 +1,64 @@
+/**
+ * Webhook signature verification shared by the edge functions
+ * The Actor signs `${timestamp}.${body}` with HMAC-SHA256 using WEBHOOK_SECRET
+ */
+
+const MAX_SKEW_SECONDS = 300
+
+export interface SignatureCheck {
+  ok: boolean
+  status?: number
+  error?: string
+}
+
+async function hmacHex(secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(message))
+  return Array.from(new Uint8Array(signature))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return diff === 0
+}
+
+/**
+ * Check the X-Signature / X-Signature-Timestamp headers against the raw request body
+ */
+export async function verifySignature(req: Request, rawBody: string): Promise<SignatureCheck> {
+  const secret = Deno.env.get('WEBHOOK_SECRET')
+  if (!secret) {
+    return { ok: false, status: 500, error: 'WEBHOOK_SECRET is not configured' }
+  }
+  
+  const signature = req.headers.get('x-signature')
+  const timestamp = req.headers.get('x-signature-timestamp')
+  if (!signature || !timestamp) {
+    return { ok: false, status: 401, error: 'Missing X-Signature or X-Signature-Timestamp header' }
+  }
+  
+  const sentAt = Number(timestamp)
+  const now = Math.floor(Date.now() / 1000)
+  if (!Number.isFinite(sentAt) || Math.abs(now - sentAt) > MAX_SKEW_SECONDS) {
+    return { ok: false, status: 401, error: `Signature timestamp outside the ${MAX_SKEW_SECONDS}s window` }
+  }
+  
+  const expected = 'sha256=' + await hmacHex(secret, `${timestamp}.${rawBody}`)
+  if (!timingSafeEqual(signature, expected)) {
+    return { ok: false, status: 401, error: 'Invalid signature' }
+  }
+  
+  return { ok: true }
+}
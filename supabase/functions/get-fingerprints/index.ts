@@ -3,14 +3,90 @@
  * Returns existing ad fingerprints to allow Actor to skip duplicates
  * 
  * This prevents re-scraping ads that are already in the database
+ * 
+ * Request: { queries, maxAge, format, cursor, limit, falsePositiveRate }
+ * - queries: [{ keyword, location, country }] scopes (plain keyword strings match any location)
+ * - maxAge: only ads seen within this many days
+ * - format 'list' returns { fingerprints, nextCursor }; 'bloom' returns { bloom: { m, k, count, bits }, total, nextCursor }
+ * - Pass nextCursor back as cursor until it is null. Bloom pages after the first send the first page's
+ *   { m, k } as bloom so every page has the same geometry and the Actor can OR them together.
+ * 
+ * With mode 'snapshot' it also returns each ad's advertiser, status and spend band,
+ * the baseline for the Actor's monitor mode, in pages of 1000 by keyword
+ * 
+ * With mode 'freshness' it returns when each scope was last scraped and how many ads it returned:
+ * { queries: [{ keyword, location, country, lastScrapedAt, adCount, complete }] }
  */
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { verifySignature } from '../_shared/signature.ts'
+import { BloomFilter, BloomGeometry, bloomGeometry } from '../_shared/bloom.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-signature, x-signature-timestamp',
+}
+
+// PostgREST returns at most this many rows per call (Supabase's default max-rows)
+const DB_PAGE_SIZE = 1000
+
+// Fingerprints per response; a Bloom page is a fixed-size filter however many it holds
+const DEFAULT_LIMITS = { list: 10000, bloom: 100000 }
+const MAX_LIMITS = { list: 50000, bloom: 500000 }
+
+interface Scope {
+  keyword: string
+  location?: string
+  country?: string
+}
+
+function toScopes(queries: unknown): Scope[] {
+  if (!Array.isArray(queries)) return []
+  return queries
+    .map((query: any) => typeof query === 'string' ? { keyword: query } : query)
+    .filter((scope: any) => scope && typeof scope.keyword === 'string')
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
+
+/**
+ * Fingerprints in order after cursor, up to limit, and the cursor to continue from (null when done)
+ */
+async function readFingerprints(
+  supabase: SupabaseClient,
+  scopes: Scope[],
+  maxAge: number | undefined,
+  cursor: string | null,
+  limit: number,
+  onPage: (fingerprints: string[]) => void
+): Promise<string | null> {
+  let after = cursor
+  let read = 0
+
+  while (read < limit) {
+    const pageSize = Math.min(DB_PAGE_SIZE, limit - read)
+    const { data, error } = await supabase.rpc('fingerprints_page', {
+      p_scopes: scopes.length > 0 ? scopes : null,
+      p_max_age_days: maxAge || null,
+      p_after: after,
+      p_limit: pageSize,
+    })
+    if (error) throw new Error(error.message)
+
+    const fingerprints = (data || []).map((row: any) => row.ad_fingerprint as string)
+    onPage(fingerprints)
+    read += fingerprints.length
+    if (fingerprints.length < pageSize) return null
+    after = fingerprints[fingerprints.length - 1]
+  }
+
+  return after
 }
 
 serve(async (req) => {
@@ -25,56 +101,125 @@ serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
     )
     
-    const { queries, location, maxAge } = await req.json()
-    
-    console.log(`📋 Fetching fingerprints for queries: ${queries?.join(', ') || 'all'}`)
+    // Only accept requests signed by the Actor with the shared secret
+    const rawBody = await req.text()
+    const check = await verifySignature(req, rawBody)
+    if (!check.ok) {
+      console.warn(`🔒 Rejected request: ${check.error}`)
+      return new Response(
+        JSON.stringify({ error: check.error }),
+        { status: check.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
     
-    // Build query
-    let query = supabase
-      .from('ads')
-      .select('ad_fingerprint')
+    const { queries, location, maxAge, mode, format, cursor, limit, bloom, falsePositiveRate } = JSON.parse(rawBody)
+    const scopes = toScopes(queries)
+      .map(scope => location && scope.location === undefined ? { ...scope, location } : scope)
+    const kind = mode === 'snapshot' || mode === 'freshness' ? mode : format === 'bloom' ? 'bloom' : 'list'
     
-    // Filter by search queries if provided
-    if (queries && queries.length > 0) {
-      query = query.in('search_query', queries)
-    }
+    console.log(`📋 Fetching ${kind} for queries: ${scopes.map(scope => scope.keyword).join(', ') || 'all'}${cursor ? ' after ' + cursor : ''}`)
     
-    // Filter by location if provided
-    if (location) {
-      query = query.eq('search_location', location)
+    if (kind === 'freshness') {
+      if (scopes.length === 0) return json({ queries: [] })
+      
+      const { data, error } = await supabase
+        .from('query_scrapes')
+        .select('search_query, search_location, search_country, last_scraped_at, ad_count, complete')
+        .in('search_query', [...new Set(scopes.map(scope => scope.keyword))])
+      
+      if (error) {
+        console.error('❌ Query error:', error)
+        return json({ error: error.message }, 500)
+      }
+      
+      const wanted = new Set(scopes.map(scope => `${scope.keyword}|${scope.location || ''}|${scope.country || ''}`))
+      const queries = (data || [])
+        .filter((row: any) => wanted.has(`${row.search_query}|${row.search_location}|${row.search_country}`))
+        .map((row: any) => ({
+          keyword: row.search_query,
+          location: row.search_location,
+          country: row.search_country || undefined,
+          lastScrapedAt: row.last_scraped_at,
+          adCount: row.ad_count,
+          complete: row.complete,
+        }))
+      
+      console.log(`✅ Returning freshness for ${queries.length} of ${scopes.length} queries`)
+      return json({ queries })
     }
     
-    // Filter by max age (days) if provided - only get recent ads
-    if (maxAge) {
-      const cutoff = new Date()
-      cutoff.setDate(cutoff.getDate() - maxAge)
-      query = query.gte('scraped_at', cutoff.toISOString())
+    if (kind === 'snapshot') {
+      // Keyset pages over the keywords, for the Actor's monitor baseline
+      let query = supabase
+        .from('ads')
+        .select('ad_fingerprint, advertiser_id, advertiser_name, is_active, spend_lower, spend_upper, currency, search_query, search_location, search_country')
+        .order('ad_fingerprint')
+        .limit(DB_PAGE_SIZE)
+      
+      if (scopes.length > 0) {
+        query = query.in('search_query', [...new Set(scopes.map(scope => scope.keyword))])
+      }
+      if (cursor) {
+        query = query.gt('ad_fingerprint', cursor)
+      }
+      if (maxAge) {
+        const cutoff = new Date()
+        cutoff.setDate(cutoff.getDate() - maxAge)
+        query = query.gte('scraped_at', cutoff.toISOString())
+      }
+      
+      const { data, error } = await query
+      if (error) {
+        console.error('❌ Query error:', error)
+        return json({ error: error.message }, 500)
+      }
+      
+      const ads = data || []
+      const fingerprints = ads.map((row: any) => row.ad_fingerprint)
+      console.log(`✅ Returning ${fingerprints.length} ads`)
+      
+      return json({
+        fingerprints,
+        count: fingerprints.length,
+        ads,
+        nextCursor: ads.length === DB_PAGE_SIZE ? fingerprints[fingerprints.length - 1] : null,
+      })
     }
     
-    // Limit to prevent huge responses
-    query = query.limit(50000)
+    const pageLimit = Math.min(Number(limit) || DEFAULT_LIMITS[kind], MAX_LIMITS[kind])
     
-    const { data, error } = await query
-    
-    if (error) {
-      console.error('❌ Query error:', error)
-      return new Response(
-        JSON.stringify({ error: error.message }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+    if (kind === 'bloom') {
+      // The first page sizes the filter for everything in scope; later pages reuse its geometry
+      let geometry: BloomGeometry
+      let total: number | undefined
+      if (bloom?.m && bloom?.k) {
+        geometry = { m: bloom.m, k: bloom.k }
+      } else {
+        const { data, error } = await supabase.rpc('count_fingerprints', {
+          p_scopes: scopes.length > 0 ? scopes : null,
+          p_max_age_days: maxAge || null,
+        })
+        if (error) throw new Error(error.message)
+        total = Number(data) || 0
+        geometry = bloomGeometry(total, Number(falsePositiveRate) || 0.001)
+      }
+      
+      const filter = new BloomFilter(geometry.m, geometry.k)
+      const nextCursor = await readFingerprints(supabase, scopes, maxAge, cursor || null, pageLimit, fingerprints => {
+        for (const fingerprint of fingerprints) filter.add(fingerprint)
+      })
+      
+      console.log(`✅ Returning a ${filter.m}-bit filter of ${filter.count} fingerprints`)
+      return json({ bloom: filter.toJSON(), count: filter.count, total, nextCursor })
     }
     
-    const fingerprints = data?.map(row => row.ad_fingerprint) || []
+    const fingerprints: string[] = []
+    const nextCursor = await readFingerprints(supabase, scopes, maxAge, cursor || null, pageLimit, page => {
+      fingerprints.push(...page)
+    })
     
     console.log(`✅ Returning ${fingerprints.length} existing fingerprints`)
-    
-    return new Response(
-      JSON.stringify({
-        fingerprints,
-        count: fingerprints.length,
-      }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    )
+    return json({ fingerprints, count: fingerprints.length, nextCursor })
     
   } catch (error) {
     console.error('❌ Unexpected error:', error)
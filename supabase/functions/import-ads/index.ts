@@ -3,17 +3,23 @@
  * Receives ad batches from Apify Actor and stores them in Supabase
  * 
  * Features:
- * - Deduplication via UPSERT with ad_fingerprint
+ * - Deduplication via UPSERT with ad_fingerprint (keyed on the Ad Library ID)
  * - Batch processing for efficiency
+ * - Lifecycle tracking via ad_observations and end-of-run reconciliation
+ * - Maintains the advertisers table from each batch's pages
+ * - Records when each search last finished (query_scrapes) for freshness skipping
+ * - Idempotent: replays of a stored Idempotency-Key are acknowledged without reprocessing
  * - Error handling with detailed responses
  */
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { verifySignature } from '../_shared/signature.ts'
+import { toAdRow } from '../../../src/ad-row.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-actor-run-id, x-batch-number, x-is-final',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-signature, x-signature-timestamp, x-actor-run-id, x-batch-number, x-is-final, idempotency-key',
 }
 
 serve(async (req) => {
@@ -28,8 +34,19 @@ serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
     )
     
-    const payload = await req.json()
-    const { ads, query, batchNumber, actorRunId } = payload
+    // Only accept requests signed by the Actor with the shared secret
+    const rawBody = await req.text()
+    const check = await verifySignature(req, rawBody)
+    if (!check.ok) {
+      console.warn(`🔒 Rejected request: ${check.error}`)
+      return new Response(
+        JSON.stringify({ error: check.error }),
+        { status: check.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+    
+    const payload = JSON.parse(rawBody)
+    const { ads, query, batchNumber, actorRunId, observedFingerprints, reconcile, scrape, grouping } = payload
     
     if (!ads || !Array.isArray(ads)) {
       return new Response(
@@ -41,78 +58,191 @@ serve(async (req) => {
     console.log(`📥 Batch ${batchNumber}: Received ${ads.length} ads for "${query?.keyword || 'unknown'}"`)
     console.log(`   Actor Run: ${actorRunId}`)
     
-    // Transform ads to match our schema
-    const transformedAds = ads.map((ad: any) => ({
-      ad_fingerprint: ad.ad_fingerprint,
-      external_id: ad.ad_id,
-      ad_archive_id: ad.ad_archive_id,
-      platform: 'meta',
-      advertiser_id: ad.page_id,
-      advertiser_name: ad.page_name,
-      advertiser_profile_url: ad.page_profile_uri,
-      advertiser_profile_image: ad.page_profile_picture_url,
-      ad_text: ad.ad_text,
-      ad_bodies: ad.ad_creative_bodies,
-      link_title: ad.ad_creative_link_titles?.[0],
-      link_caption: ad.ad_creative_link_captions?.[0],
-      link_description: ad.ad_creative_link_descriptions?.[0],
-      cta_text: ad.cta_text,
-      media_type: ad.media_type,
-      media_urls: ad.media_urls,
-      is_active: ad.is_active,
-      started_at: ad.ad_delivery_start_time ? new Date(ad.ad_delivery_start_time).toISOString() : null,
-      stopped_at: ad.ad_delivery_stop_time ? new Date(ad.ad_delivery_stop_time).toISOString() : null,
-      currency: ad.currency,
-      spend_lower: ad.spend_lower,
-      spend_upper: ad.spend_upper,
-      impressions_lower: ad.impressions_lower,
-      impressions_upper: ad.impressions_upper,
-      platforms: ad.platforms,
-      publisher_platforms: ad.publisher_platforms,
-      target_locations: ad.target_locations,
-      eu_total_reach: ad.eu_total_reach,
-      search_query: ad.search_query,
-      search_location: ad.search_location,
-      source_url: ad.source_url,
-      scraped_at: ad.scraped_at,
-      raw_data: ad,
-    }))
+    // Acknowledge batches we already stored (retries, restarts, dead-letter replays)
+    const idempotencyKey = req.headers.get('idempotency-key')
+    if (idempotencyKey) {
+      const { data: delivery } = await supabase
+        .from('webhook_deliveries')
+        .select('response')
+        .eq('idempotency_key', idempotencyKey)
+        .maybeSingle()
+      
+      if (delivery) {
+        console.log(`↩️ Batch ${batchNumber}: Replay of ${idempotencyKey}, skipping`)
+        return new Response(
+          JSON.stringify({ ...delivery.response, replayed: true }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+    }
+    
+    // Same mapping as the Actor's Postgres sink
+    const transformedAds = ads.map(toAdRow)
     
-    // Upsert with conflict handling on ad_fingerprint
+    // Upsert with conflict handling on ad_fingerprint ('meta_<Library ID>')
     // ON CONFLICT DO UPDATE ensures we get latest data if ad already exists
-    const { data, error, count } = await supabase
-      .from('ads')
-      .upsert(transformedAds, {
-        onConflict: 'ad_fingerprint',
-        ignoreDuplicates: false, // Update existing records
+    let insertedCount = 0
+    if (transformedAds.length > 0) {
+      // Rows stored before Library IDs were scraped take this batch's key, instead of the ad being stored twice
+      const { data: adopted, error: adoptError } = await supabase.rpc('adopt_legacy_ads', {
+        p_ads: transformedAds
+          .filter((ad: any) => ad.ad_archive_id)
+          .map((ad: any) => ({
+            ad_fingerprint: ad.ad_fingerprint,
+            ad_archive_id: ad.ad_archive_id,
+            advertiser_id: ad.advertiser_id,
+            ad_text: ad.ad_text,
+          })),
       })
-      .select('id, ad_fingerprint')
+      if (adoptError) {
+        console.error('⚠️ Legacy adoption error:', adoptError)
+      } else if (adopted > 0) {
+        console.log(`🔑 Batch ${batchNumber}: Re-keyed ${adopted} ads stored without a Library ID`)
+      }
+
+      const { data, error } = await supabase
+        .from('ads')
+        .upsert(transformedAds, {
+          onConflict: 'ad_fingerprint',
+          ignoreDuplicates: false, // Update existing records
+        })
+        .select('id, ad_fingerprint')
+      
+      if (error) {
+        console.error('❌ Upsert error:', error)
+        return new Response(
+          JSON.stringify({ 
+            error: error.message,
+            code: error.code,
+            details: error.details 
+          }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+      
+      insertedCount = data?.length || 0
+      console.log(`✅ Batch ${batchNumber}: Processed ${insertedCount} ads`)
+      
+      // Keep advertiser aggregates current; a failure here shouldn't fail the batch
+      const advertiserIds = [...new Set(transformedAds.map((ad: any) => ad.advertiser_id).filter(Boolean))]
+      if (advertiserIds.length > 0) {
+        const { error: advertiserError } = await supabase.rpc('refresh_advertisers', {
+          p_advertiser_ids: advertiserIds,
+        })
+        if (advertiserError) {
+          console.error('⚠️ Advertiser refresh error:', advertiserError)
+        }
+      }
+      
+      // Merge this batch's creative groups into groups from earlier runs
+      const groupedFingerprints = transformedAds
+        .filter((ad: any) => ad.creative_group_id || ad.copy_group_id)
+        .map((ad: any) => ad.ad_fingerprint)
+      if (groupedFingerprints.length > 0) {
+        // Same thresholds the Actor grouped with; the SQL defaults only apply to older Actor versions
+        const { error: groupError } = await supabase.rpc('link_creative_groups', {
+          p_fingerprints: groupedFingerprints,
+          p_max_distance: grouping?.hashDistance,
+          p_min_similarity: grouping?.copySimilarity,
+        })
+        if (groupError) {
+          console.error('⚠️ Creative group link error:', groupError)
+        }
+      }
+    }
     
-    if (error) {
-      console.error('❌ Upsert error:', error)
-      return new Response(
-        JSON.stringify({ 
-          error: error.message,
-          code: error.code,
-          details: error.details 
-        }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+    // Record which running ads this query returned in this run
+    let observed = 0
+    if (Array.isArray(observedFingerprints) && observedFingerprints.length > 0) {
+      const { data, error } = await supabase.rpc('record_ad_observations', {
+        p_run_id: actorRunId,
+        p_query: query?.keyword,
+        p_location: query?.location || '',
+        p_country: query?.country || '',
+        p_fingerprints: observedFingerprints,
+      })
+      
+      if (error) {
+        console.error('❌ Observation error:', error)
+        return new Response(
+          JSON.stringify({ error: error.message, code: error.code }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+      
+      observed = data || 0
+      console.log(`👀 Batch ${batchNumber}: Recorded ${observed} observations`)
     }
     
-    // Count new vs updated
-    const insertedCount = data?.length || 0
+    // The search finished: when it was last scraped, for the Actor's minRefreshHours
+    if (scrape && query?.keyword) {
+      const { error } = await supabase.rpc('record_query_scrape', {
+        p_run_id: actorRunId,
+        p_query: query.keyword,
+        p_location: query.location || '',
+        p_country: query.country || '',
+        p_ad_count: scrape.adCount || 0,
+        p_complete: Boolean(scrape.complete),
+      })
+      
+      if (error) {
+        console.error('❌ Query scrape error:', error)
+        return new Response(
+          JSON.stringify({ error: error.message, code: error.code }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+    }
     
-    console.log(`✅ Batch ${batchNumber}: Processed ${insertedCount} ads`)
+    // End-of-run: ads this query used to return but no longer does have stopped
+    let stopped = 0
+    if (reconcile && query?.keyword) {
+      const { data, error } = await supabase.rpc('reconcile_query_run', {
+        p_run_id: actorRunId,
+        p_query: query.keyword,
+        p_location: query.location || '',
+        p_country: query.country || '',
+      })
+      
+      if (error) {
+        console.error('❌ Reconcile error:', error)
+        return new Response(
+          JSON.stringify({ error: error.message, code: error.code }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+      
+      stopped = data || 0
+      console.log(`🛑 Batch ${batchNumber}: Marked ${stopped} ads as stopped for "${query.keyword}"`)
+    }
+    
+    const result = {
+      success: true,
+      batch: batchNumber,
+      received: ads.length,
+      processed: insertedCount,
+      observed,
+      stopped,
+      query: query?.keyword,
+    }
+    
+    if (idempotencyKey) {
+      const { error: deliveryError } = await supabase
+        .from('webhook_deliveries')
+        .upsert({
+          idempotency_key: idempotencyKey,
+          actor_run_id: actorRunId,
+          batch_number: batchNumber,
+          response: result,
+        }, { onConflict: 'idempotency_key', ignoreDuplicates: true })
+      
+      if (deliveryError) {
+        console.error('⚠️ Delivery record error:', deliveryError)
+      }
+    }
     
     return new Response(
-      JSON.stringify({
-        success: true,
-        batch: batchNumber,
-        received: ads.length,
-        processed: insertedCount,
-        query: query?.keyword,
-      }),
+      JSON.stringify(result),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     )
     
@@ -0,0 +1,5 @@
+-- Migration: Add ad detail columns
+-- Stores the "See ad details" data collected when scrapeAdDetails is enabled
+
+ALTER TABLE ads ADD COLUMN IF NOT EXISTS demographic_distribution JSONB;
+ALTER TABLE ads ADD COLUMN IF NOT EXISTS beneficiary_payers TEXT[];
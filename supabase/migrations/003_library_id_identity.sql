@@ -0,0 +1,121 @@
+-- Migration: Key ads on the Ad Library ID
+-- ad_fingerprint becomes 'meta_<ad_archive_id>' when the Library ID is known,
+-- and the content hash moves to content_fingerprint for creative variant detection.
+--
+-- Rows imported before this change have no Library ID anywhere (not in raw_data, source_url or the ad text),
+-- so they can't be re-keyed here. They get a content_fingerprint and the Actor's content key ('meta_c...'),
+-- and import-ads hands each one to its Library ID through adopt_legacy_ads the first time the ad is scraped again.
+
+ALTER TABLE ads ADD COLUMN IF NOT EXISTS content_fingerprint TEXT;
+
+-- Normalised ad text, as the Actor hashes it: lowercase, whitespace collapsed and trimmed
+CREATE OR REPLACE FUNCTION normalize_ad_text(p_text TEXT)
+RETURNS TEXT AS $$
+  SELECT lower(btrim(regexp_replace(COALESCE(p_text, ''), '\s+', ' ', 'g')))
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Same components and hash as generateContentFingerprint in the Actor, from the stored columns
+UPDATE ads
+SET content_fingerprint = encode(sha256(convert_to(concat_ws('|',
+  COALESCE(advertiser_id, ''),
+  COALESCE(advertiser_name, ''),
+  normalize_ad_text(ad_text),
+  lower(COALESCE((SELECT string_agg(title, E'\n') FROM jsonb_array_elements_text(
+    CASE WHEN jsonb_typeof(raw_data->'ad_creative_link_titles') = 'array' THEN raw_data->'ad_creative_link_titles' ELSE '[]'::jsonb END
+  ) title), '')),
+  array_to_string(ARRAY(SELECT split_part(url, '?', 1) FROM unnest(COALESCE(media_urls, '{}')) url), E'\n'),
+  lower(COALESCE(cta_text, ''))
+), 'UTF8')), 'hex')
+WHERE content_fingerprint IS NULL;
+
+-- Old timestamp-based ids produced one row per run; keep the most recently scraped row per Library ID
+DELETE FROM ads
+WHERE id IN (
+  SELECT id FROM (
+    SELECT
+      id,
+      ROW_NUMBER() OVER (
+        PARTITION BY ad_archive_id
+        ORDER BY scraped_at DESC NULLS LAST, created_at DESC
+      ) AS row_rank
+    FROM ads
+    WHERE ad_archive_id IS NOT NULL
+  ) ranked
+  WHERE row_rank > 1
+);
+
+-- Re-key the surviving rows on the Library ID
+UPDATE ads
+SET
+  ad_fingerprint = 'meta_' || ad_archive_id,
+  external_id = ad_archive_id
+WHERE ad_archive_id IS NOT NULL
+  AND ad_fingerprint <> 'meta_' || ad_archive_id;
+
+-- Legacy 32-bit hash keys move to the content key the Actor uses for ads without a Library ID.
+-- Rows that now share a content key keep their old key, and are adopted one by one later.
+UPDATE ads
+SET ad_fingerprint = rekeyed.fingerprint
+FROM (
+  SELECT
+    id,
+    'meta_c' || left(content_fingerprint, 32) AS fingerprint,
+    ROW_NUMBER() OVER (
+      PARTITION BY content_fingerprint
+      ORDER BY scraped_at DESC NULLS LAST, created_at DESC
+    ) AS row_rank
+  FROM ads
+  WHERE ad_archive_id IS NULL
+    AND ad_fingerprint ~ '^meta_[0-9a-f]{8}$'
+) rekeyed
+WHERE ads.id = rekeyed.id
+  AND rekeyed.row_rank = 1
+  AND NOT EXISTS (SELECT 1 FROM ads taken WHERE taken.ad_fingerprint = rekeyed.fingerprint);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ads_archive_id ON ads(ad_archive_id) WHERE ad_archive_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_ads_content_fingerprint ON ads(content_fingerprint);
+CREATE INDEX IF NOT EXISTS idx_ads_legacy_text ON ads(advertiser_id, normalize_ad_text(ad_text)) WHERE ad_archive_id IS NULL;
+
+-- Hand rows stored without a Library ID to the Library ID an import now reports for the same advertiser
+-- and ad text, so the ad isn't stored a second time (used by import-ads before its upsert).
+-- p_ads is [{ad_fingerprint, ad_archive_id, advertiser_id, ad_text}]; returns how many rows were re-keyed.
+CREATE OR REPLACE FUNCTION adopt_legacy_ads(p_ads JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+  adopted INTEGER;
+BEGIN
+  WITH incoming AS (
+    -- One Library ID per advertiser and text, so a legacy row is adopted at most once
+    SELECT DISTINCT ON (i.advertiser_id, normalize_ad_text(i.ad_text))
+      i.ad_fingerprint,
+      i.ad_archive_id,
+      i.advertiser_id,
+      normalize_ad_text(i.ad_text) AS ad_text
+    FROM jsonb_to_recordset(p_ads) AS i(ad_fingerprint TEXT, ad_archive_id TEXT, advertiser_id TEXT, ad_text TEXT)
+    WHERE i.ad_archive_id IS NOT NULL
+      AND COALESCE(i.advertiser_id, '') <> ''
+      AND normalize_ad_text(i.ad_text) <> ''
+      AND NOT EXISTS (SELECT 1 FROM ads known WHERE known.ad_fingerprint = i.ad_fingerprint)
+    ORDER BY i.advertiser_id, normalize_ad_text(i.ad_text), i.ad_archive_id
+  ),
+  legacy AS (
+    SELECT DISTINCT ON (n.ad_fingerprint) a.id, n.ad_fingerprint, n.ad_archive_id
+    FROM incoming n
+    JOIN ads a
+      ON a.ad_archive_id IS NULL
+      AND a.advertiser_id = n.advertiser_id
+      AND normalize_ad_text(a.ad_text) = n.ad_text
+    ORDER BY n.ad_fingerprint, a.scraped_at DESC NULLS LAST
+  )
+  UPDATE ads
+  SET
+    ad_fingerprint = legacy.ad_fingerprint,
+    ad_archive_id = legacy.ad_archive_id,
+    external_id = legacy.ad_archive_id
+  FROM legacy
+  WHERE ads.id = legacy.id;
+
+  GET DIAGNOSTICS adopted = ROW_COUNT;
+  RETURN adopted;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,133 @@
+-- Migration: Ad lifecycle history
+-- Tracks when each ad was first/last observed, how many runs saw it and when it stopped
+
+ALTER TABLE ads ADD COLUMN IF NOT EXISTS first_seen_at TIMESTAMPTZ;
+ALTER TABLE ads ADD COLUMN IF NOT EXISTS last_seen_at TIMESTAMPTZ;
+ALTER TABLE ads ADD COLUMN IF NOT EXISTS times_seen INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE ads ADD COLUMN IF NOT EXISTS last_run_id TEXT;
+
+-- Existing rows: best guess from the row timestamps
+UPDATE ads
+SET
+  first_seen_at = COALESCE(created_at, scraped_at, now()),
+  last_seen_at = COALESCE(scraped_at, updated_at, now())
+WHERE first_seen_at IS NULL;
+
+ALTER TABLE ads ALTER COLUMN first_seen_at SET DEFAULT now();
+ALTER TABLE ads ALTER COLUMN last_seen_at SET DEFAULT now();
+
+-- times_seen counts runs that saw the ad running; new rows are counted by record_ad_observations
+ALTER TABLE ads ALTER COLUMN times_seen SET DEFAULT 0;
+
+-- One row per ad per run per query/location/country that returned it
+CREATE TABLE IF NOT EXISTS ad_observations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  ad_fingerprint TEXT NOT NULL REFERENCES ads(ad_fingerprint) ON DELETE CASCADE ON UPDATE CASCADE,
+  actor_run_id TEXT NOT NULL,
+  search_query TEXT NOT NULL,
+  search_location TEXT NOT NULL DEFAULT '',
+  search_country TEXT NOT NULL DEFAULT '',
+  is_active BOOLEAN,
+  spend_lower NUMERIC,
+  spend_upper NUMERIC,
+  impressions_lower BIGINT,
+  impressions_upper BIGINT,
+  observed_at TIMESTAMPTZ DEFAULT now(),
+  
+  CONSTRAINT ad_observations_unique UNIQUE (ad_fingerprint, actor_run_id, search_query, search_location, search_country)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ad_observations_query ON ad_observations(search_query, search_location, search_country);
+CREATE INDEX IF NOT EXISTS idx_ad_observations_run ON ad_observations(actor_run_id);
+CREATE INDEX IF NOT EXISTS idx_ads_last_seen_at ON ads(last_seen_at DESC);
+
+-- Record that a run's query/location/country returned these ads (used by import-ads)
+CREATE OR REPLACE FUNCTION record_ad_observations(
+  p_run_id TEXT,
+  p_query TEXT,
+  p_location TEXT,
+  p_country TEXT,
+  p_fingerprints TEXT[]
+)
+RETURNS INTEGER AS $$
+DECLARE
+  recorded INTEGER;
+BEGIN
+  INSERT INTO ad_observations (
+    ad_fingerprint, actor_run_id, search_query, search_location, search_country,
+    is_active, spend_lower, spend_upper, impressions_lower, impressions_upper
+  )
+  SELECT
+    ad_fingerprint, p_run_id, p_query, COALESCE(p_location, ''), COALESCE(p_country, ''),
+    true, spend_lower, spend_upper, impressions_lower, impressions_upper
+  FROM ads
+  WHERE ad_fingerprint = ANY(p_fingerprints)
+  ON CONFLICT ON CONSTRAINT ad_observations_unique DO NOTHING;
+  
+  GET DIAGNOSTICS recorded = ROW_COUNT;
+  
+  -- Count each run once, and revive ads that had been marked as stopped
+  UPDATE ads
+  SET
+    last_seen_at = now(),
+    times_seen = times_seen + 1,
+    last_run_id = p_run_id,
+    is_active = true,
+    stopped_at = NULL
+  WHERE ad_fingerprint = ANY(p_fingerprints)
+    AND last_run_id IS DISTINCT FROM p_run_id;
+  
+  RETURN recorded;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Mark ads this query/location/country used to return, but did not return in this run, as stopped
+CREATE OR REPLACE FUNCTION reconcile_query_run(
+  p_run_id TEXT,
+  p_query TEXT,
+  p_location TEXT,
+  p_country TEXT
+)
+RETURNS INTEGER AS $$
+DECLARE
+  stopped INTEGER;
+BEGIN
+  UPDATE ads a
+  SET
+    is_active = false,
+    stopped_at = COALESCE(a.stopped_at, a.last_seen_at)
+  WHERE a.is_active
+    AND a.last_run_id IS DISTINCT FROM p_run_id
+    AND EXISTS (
+      SELECT 1 FROM ad_observations o
+      WHERE o.ad_fingerprint = a.ad_fingerprint
+        AND o.search_query = p_query
+        AND o.search_location = COALESCE(p_location, '')
+        AND o.search_country = COALESCE(p_country, '')
+    );
+  
+  GET DIAGNOSTICS stopped = ROW_COUNT;
+  RETURN stopped;
+END;
+$$ LANGUAGE plpgsql;
+
+-- How long each ad has been running (or ran, once stopped)
+CREATE OR REPLACE VIEW ad_lifecycle AS
+SELECT
+  ad_fingerprint,
+  ad_archive_id,
+  advertiser_id,
+  advertiser_name,
+  search_query,
+  search_location,
+  is_active,
+  COALESCE(started_at, first_seen_at) AS running_since,
+  CASE WHEN is_active THEN NULL ELSE COALESCE(stopped_at, last_seen_at) END AS stopped_at,
+  first_seen_at,
+  last_seen_at,
+  times_seen,
+  GREATEST(0, FLOOR(EXTRACT(EPOCH FROM (
+    CASE WHEN is_active THEN last_seen_at ELSE COALESCE(stopped_at, last_seen_at) END
+    - COALESCE(started_at, first_seen_at)
+  )) / 86400))::INTEGER AS run_length_days
+FROM ads;
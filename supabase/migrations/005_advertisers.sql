@@ -0,0 +1,170 @@
+-- Migration: Advertiser (page) entities
+-- One row per Meta page, aggregated from its ads by import-ads
+
+ALTER TABLE ads ADD COLUMN IF NOT EXISTS advertiser_instagram_handle TEXT;
+
+CREATE TABLE IF NOT EXISTS advertisers (
+  advertiser_id TEXT PRIMARY KEY,
+  platform TEXT NOT NULL DEFAULT 'meta',
+  
+  -- Page info (latest known values)
+  name TEXT NOT NULL,
+  profile_url TEXT,
+  profile_image TEXT,
+  page_likes INTEGER,
+  instagram_handle TEXT,
+  
+  -- Aggregates over the page's ads
+  total_ads INTEGER NOT NULL DEFAULT 0,
+  active_ads INTEGER NOT NULL DEFAULT 0,
+  platforms TEXT[],
+  search_queries TEXT[],
+  first_activity_at TIMESTAMPTZ,
+  last_activity_at TIMESTAMPTZ,
+  
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_advertisers_name ON advertisers(name);
+CREATE INDEX IF NOT EXISTS idx_advertisers_active_ads ON advertisers(active_ads DESC);
+
+DROP TRIGGER IF EXISTS advertisers_updated_at ON advertisers;
+CREATE TRIGGER advertisers_updated_at
+  BEFORE UPDATE ON advertisers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+-- Recompute advertiser rows from their ads (used by import-ads)
+CREATE OR REPLACE FUNCTION refresh_advertisers(p_advertiser_ids TEXT[])
+RETURNS INTEGER AS $$
+DECLARE
+  refreshed INTEGER;
+BEGIN
+  INSERT INTO advertisers (
+    advertiser_id, platform, name, profile_url, profile_image, page_likes, instagram_handle,
+    total_ads, active_ads, platforms, search_queries, first_activity_at, last_activity_at
+  )
+  SELECT
+    a.advertiser_id,
+    'meta',
+    (array_agg(a.advertiser_name ORDER BY a.scraped_at DESC))[1],
+    (array_agg(a.advertiser_profile_url ORDER BY a.scraped_at DESC) FILTER (WHERE a.advertiser_profile_url IS NOT NULL))[1],
+    (array_agg(a.advertiser_profile_image ORDER BY a.scraped_at DESC) FILTER (WHERE a.advertiser_profile_image IS NOT NULL))[1],
+    (array_agg(a.advertiser_page_likes ORDER BY a.scraped_at DESC) FILTER (WHERE a.advertiser_page_likes IS NOT NULL))[1],
+    (array_agg(a.advertiser_instagram_handle ORDER BY a.scraped_at DESC) FILTER (WHERE a.advertiser_instagram_handle IS NOT NULL))[1],
+    COUNT(*),
+    COUNT(*) FILTER (WHERE a.is_active),
+    ARRAY(
+      SELECT DISTINCT p FROM ads a2, unnest(a2.platforms) p
+      WHERE a2.advertiser_id = a.advertiser_id
+    ),
+    array_agg(DISTINCT a.search_query) FILTER (WHERE a.search_query IS NOT NULL),
+    MIN(COALESCE(a.started_at, a.first_seen_at)),
+    MAX(a.last_seen_at)
+  FROM ads a
+  WHERE a.advertiser_id = ANY(p_advertiser_ids)
+    AND a.advertiser_id <> ''
+  GROUP BY a.advertiser_id
+  ON CONFLICT (advertiser_id) DO UPDATE SET
+    name = EXCLUDED.name,
+    profile_url = COALESCE(EXCLUDED.profile_url, advertisers.profile_url),
+    profile_image = COALESCE(EXCLUDED.profile_image, advertisers.profile_image),
+    page_likes = COALESCE(EXCLUDED.page_likes, advertisers.page_likes),
+    instagram_handle = COALESCE(EXCLUDED.instagram_handle, advertisers.instagram_handle),
+    total_ads = EXCLUDED.total_ads,
+    active_ads = EXCLUDED.active_ads,
+    platforms = EXCLUDED.platforms,
+    search_queries = EXCLUDED.search_queries,
+    first_activity_at = EXCLUDED.first_activity_at,
+    last_activity_at = EXCLUDED.last_activity_at;
+  
+  GET DIAGNOSTICS refreshed = ROW_COUNT;
+  RETURN refreshed;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Observations move last_seen_at and can revive stopped ads, so refresh the affected advertisers too
+CREATE OR REPLACE FUNCTION record_ad_observations(
+  p_run_id TEXT,
+  p_query TEXT,
+  p_location TEXT,
+  p_country TEXT,
+  p_fingerprints TEXT[]
+)
+RETURNS INTEGER AS $$
+DECLARE
+  recorded INTEGER;
+BEGIN
+  INSERT INTO ad_observations (
+    ad_fingerprint, actor_run_id, search_query, search_location, search_country,
+    is_active, spend_lower, spend_upper, impressions_lower, impressions_upper
+  )
+  SELECT
+    ad_fingerprint, p_run_id, p_query, COALESCE(p_location, ''), COALESCE(p_country, ''),
+    true, spend_lower, spend_upper, impressions_lower, impressions_upper
+  FROM ads
+  WHERE ad_fingerprint = ANY(p_fingerprints)
+  ON CONFLICT ON CONSTRAINT ad_observations_unique DO NOTHING;
+  
+  GET DIAGNOSTICS recorded = ROW_COUNT;
+  
+  UPDATE ads
+  SET
+    last_seen_at = now(),
+    times_seen = times_seen + 1,
+    last_run_id = p_run_id,
+    is_active = true,
+    stopped_at = NULL
+  WHERE ad_fingerprint = ANY(p_fingerprints)
+    AND last_run_id IS DISTINCT FROM p_run_id;
+  
+  PERFORM refresh_advertisers(ARRAY(
+    SELECT DISTINCT advertiser_id FROM ads
+    WHERE ad_fingerprint = ANY(p_fingerprints) AND advertiser_id IS NOT NULL
+  ));
+  
+  RETURN recorded;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Reconciliation changes active counts, so refresh the affected advertisers too
+CREATE OR REPLACE FUNCTION reconcile_query_run(
+  p_run_id TEXT,
+  p_query TEXT,
+  p_location TEXT,
+  p_country TEXT
+)
+RETURNS INTEGER AS $$
+DECLARE
+  stopped_advertisers TEXT[];
+BEGIN
+  WITH stopped_ads AS (
+    UPDATE ads a
+    SET
+      is_active = false,
+      stopped_at = COALESCE(a.stopped_at, a.last_seen_at)
+    WHERE a.is_active
+      AND a.last_run_id IS DISTINCT FROM p_run_id
+      AND EXISTS (
+        SELECT 1 FROM ad_observations o
+        WHERE o.ad_fingerprint = a.ad_fingerprint
+          AND o.search_query = p_query
+          AND o.search_location = COALESCE(p_location, '')
+          AND o.search_country = COALESCE(p_country, '')
+      )
+    RETURNING a.advertiser_id
+  )
+  SELECT array_agg(advertiser_id) INTO stopped_advertisers FROM stopped_ads;
+  
+  IF stopped_advertisers IS NULL THEN
+    RETURN 0;
+  END IF;
+  
+  PERFORM refresh_advertisers(ARRAY(SELECT DISTINCT unnest(stopped_advertisers)));
+  RETURN array_length(stopped_advertisers, 1);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Backfill from existing ads
+SELECT refresh_advertisers(ARRAY(SELECT DISTINCT advertiser_id FROM ads WHERE advertiser_id IS NOT NULL));
@@ -0,0 +1,12 @@
+-- Migration: Idempotent webhook delivery
+-- import-ads records each batch's Idempotency-Key and ignores replays of a stored batch
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  idempotency_key TEXT PRIMARY KEY,
+  actor_run_id TEXT,
+  batch_number INTEGER,
+  response JSONB,
+  received_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_run ON webhook_deliveries(actor_run_id);
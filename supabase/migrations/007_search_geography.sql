@@ -0,0 +1,8 @@
+-- Migration: Structured search geography
+-- The city/state/country each ad was found under, from query expansion
+
+ALTER TABLE ads ADD COLUMN IF NOT EXISTS search_city TEXT;
+ALTER TABLE ads ADD COLUMN IF NOT EXISTS search_state TEXT;
+ALTER TABLE ads ADD COLUMN IF NOT EXISTS search_country TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_ads_search_geo ON ads(search_country, search_state, search_city);
@@ -0,0 +1,17 @@
+-- Migration: Query category
+-- The vertical of the query that found each ad (e.g. 'golf-carts'), for reporting by vertical
+
+ALTER TABLE ads ADD COLUMN IF NOT EXISTS category TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_ads_category ON ads(category);
+
+CREATE OR REPLACE VIEW ads_by_category AS
+SELECT
+  category,
+  search_location,
+  COUNT(*) AS total_ads,
+  COUNT(DISTINCT advertiser_id) AS unique_advertisers,
+  COUNT(*) FILTER (WHERE is_active) AS active_ads,
+  MAX(scraped_at) AS last_scraped
+FROM ads
+GROUP BY category, search_location;
@@ -0,0 +1,9 @@
+-- Migration: Archived creative media
+-- Stable copies of creatives whose CDN links expire, addressed by SHA-256 content hash
+
+ALTER TABLE ads ADD COLUMN IF NOT EXISTS archived_media JSONB;
+ALTER TABLE ads ADD COLUMN IF NOT EXISTS archived_thumbnail_url TEXT;
+ALTER TABLE ads ADD COLUMN IF NOT EXISTS archived_video_url TEXT;
+ALTER TABLE ads ADD COLUMN IF NOT EXISTS media_hashes TEXT[];
+
+CREATE INDEX IF NOT EXISTS idx_ads_media_hashes ON ads USING GIN (media_hashes);
@@ -0,0 +1,93 @@
+-- Migration: Creative groups
+-- Links ads that reuse a near-identical image (perceptual hash) or near-identical copy from the same page
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+ALTER TABLE ads ADD COLUMN IF NOT EXISTS perceptual_hashes TEXT[];
+ALTER TABLE ads ADD COLUMN IF NOT EXISTS creative_group_id TEXT;
+ALTER TABLE ads ADD COLUMN IF NOT EXISTS copy_group_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_ads_creative_group ON ads(creative_group_id);
+CREATE INDEX IF NOT EXISTS idx_ads_copy_group ON ads(copy_group_id);
+
+-- Hamming distance between two 64-bit perceptual hashes in hex
+CREATE OR REPLACE FUNCTION phash_distance(a TEXT, b TEXT)
+RETURNS INTEGER AS $$
+  SELECT bit_count(('x' || a)::BIT(64) # ('x' || b)::BIT(64))::INTEGER
+$$ LANGUAGE sql IMMUTABLE;
+
+-- The actor groups ads within a run; this merges those groups into matching groups stored by earlier runs
+CREATE OR REPLACE FUNCTION link_creative_groups(
+  p_fingerprints TEXT[],
+  p_max_distance INTEGER DEFAULT 6,
+  p_min_similarity REAL DEFAULT 0.7
+)
+RETURNS INTEGER AS $$
+DECLARE
+  linked INTEGER := 0;
+  fingerprint TEXT;
+  target RECORD;
+  existing TEXT;
+BEGIN
+  FOREACH fingerprint IN ARRAY p_fingerprints LOOP
+    -- Re-read each time, an earlier iteration may already have moved this ad's group
+    SELECT creative_group_id, copy_group_id, perceptual_hashes, advertiser_id, ad_text
+    INTO target
+    FROM ads
+    WHERE ad_fingerprint = fingerprint;
+
+    IF NOT FOUND THEN
+      CONTINUE;
+    END IF;
+
+    IF target.creative_group_id IS NOT NULL AND target.perceptual_hashes IS NOT NULL THEN
+      SELECT o.creative_group_id INTO existing
+      FROM ads o, unnest(o.perceptual_hashes) known, unnest(target.perceptual_hashes) incoming
+      WHERE o.creative_group_id IS NOT NULL
+        AND o.creative_group_id <> target.creative_group_id
+        AND NOT (o.ad_fingerprint = ANY(p_fingerprints))
+        AND phash_distance(known, incoming) <= p_max_distance
+      ORDER BY o.first_seen_at
+      LIMIT 1;
+
+      IF existing IS NOT NULL THEN
+        UPDATE ads SET creative_group_id = existing WHERE creative_group_id = target.creative_group_id;
+        linked := linked + 1;
+      END IF;
+    END IF;
+
+    IF target.copy_group_id IS NOT NULL AND COALESCE(target.ad_text, '') <> '' THEN
+      SELECT o.copy_group_id INTO existing
+      FROM ads o
+      WHERE o.advertiser_id = target.advertiser_id
+        AND o.copy_group_id IS NOT NULL
+        AND o.copy_group_id <> target.copy_group_id
+        AND NOT (o.ad_fingerprint = ANY(p_fingerprints))
+        AND similarity(o.ad_text, target.ad_text) >= p_min_similarity
+      ORDER BY o.first_seen_at
+      LIMIT 1;
+
+      IF existing IS NOT NULL THEN
+        UPDATE ads SET copy_group_id = existing WHERE copy_group_id = target.copy_group_id;
+        linked := linked + 1;
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN linked;
+END;
+$$ LANGUAGE plpgsql;
+
+-- One row per creative group: how many ads, advertisers and copy variants reuse it
+CREATE OR REPLACE VIEW creative_groups AS
+SELECT
+  creative_group_id,
+  COUNT(*) AS total_ads,
+  COUNT(*) FILTER (WHERE is_active) AS active_ads,
+  COUNT(DISTINCT advertiser_id) AS advertisers,
+  COUNT(DISTINCT copy_group_id) AS copy_variants,
+  MIN(first_seen_at) AS first_seen_at,
+  MAX(last_seen_at) AS last_seen_at
+FROM ads
+WHERE creative_group_id IS NOT NULL
+GROUP BY creative_group_id;
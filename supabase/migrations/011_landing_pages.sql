@@ -0,0 +1,26 @@
+-- Migration: Landing pages and CTA categories
+-- Each ad's unwrapped destination URL, its domain and UTM parameters, and what the CTA asks people to do
+
+ALTER TABLE ads ADD COLUMN IF NOT EXISTS landing_page_url TEXT;
+ALTER TABLE ads ADD COLUMN IF NOT EXISTS landing_domain TEXT;
+ALTER TABLE ads ADD COLUMN IF NOT EXISTS utm_params JSONB;
+ALTER TABLE ads ADD COLUMN IF NOT EXISTS cta_category TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_ads_landing_domain ON ads(landing_domain);
+CREATE INDEX IF NOT EXISTS idx_ads_cta_category ON ads(cta_category);
+
+-- Competitor ads grouped by where they send people
+CREATE OR REPLACE VIEW landing_pages AS
+SELECT
+  landing_domain,
+  landing_page_url,
+  COUNT(*) AS total_ads,
+  COUNT(*) FILTER (WHERE is_active) AS active_ads,
+  array_agg(DISTINCT advertiser_name) AS advertisers,
+  array_agg(DISTINCT cta_category) FILTER (WHERE cta_category IS NOT NULL) AS cta_categories,
+  array_agg(DISTINCT utm_params->>'utm_campaign') FILTER (WHERE utm_params ? 'utm_campaign') AS utm_campaigns,
+  MIN(first_seen_at) AS first_seen_at,
+  MAX(last_seen_at) AS last_seen_at
+FROM ads
+WHERE landing_page_url IS NOT NULL
+GROUP BY landing_domain, landing_page_url;
@@ -0,0 +1,27 @@
+-- Migration: Ad copy enrichment
+-- Phone numbers, offers, promo codes, city mentions and matched query keywords extracted by the Actor
+
+ALTER TABLE ads ADD COLUMN IF NOT EXISTS phone_numbers TEXT[];
+ALTER TABLE ads ADD COLUMN IF NOT EXISTS offers JSONB;
+ALTER TABLE ads ADD COLUMN IF NOT EXISTS offer_types TEXT[];
+ALTER TABLE ads ADD COLUMN IF NOT EXISTS promo_codes TEXT[];
+ALTER TABLE ads ADD COLUMN IF NOT EXISTS mentioned_cities TEXT[];
+ALTER TABLE ads ADD COLUMN IF NOT EXISTS matched_keywords TEXT[];
+
+CREATE INDEX IF NOT EXISTS idx_ads_offer_types ON ads USING GIN (offer_types);
+CREATE INDEX IF NOT EXISTS idx_ads_phone_numbers ON ads USING GIN (phone_numbers);
+CREATE INDEX IF NOT EXISTS idx_ads_mentioned_cities ON ads USING GIN (mentioned_cities);
+
+-- How many competitors run each kind of offer, per market: "3 competitors advertise financing"
+CREATE OR REPLACE VIEW competitor_offers AS
+SELECT
+  a.category,
+  a.search_city,
+  a.search_state,
+  offer_type,
+  COUNT(DISTINCT a.advertiser_id) AS competitors,
+  COUNT(*) AS total_ads,
+  COUNT(*) FILTER (WHERE a.is_active) AS active_ads,
+  array_agg(DISTINCT a.advertiser_name) AS advertiser_names
+FROM ads a, unnest(a.offer_types) AS offer_type
+GROUP BY a.category, a.search_city, a.search_state, offer_type;
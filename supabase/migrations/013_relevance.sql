@@ -0,0 +1,8 @@
+-- Migration: Query relevance
+-- How well each ad matches the keyword and location it was found under
+
+ALTER TABLE ads ADD COLUMN IF NOT EXISTS relevance_score REAL;
+ALTER TABLE ads ADD COLUMN IF NOT EXISTS relevance_signals TEXT[];
+ALTER TABLE ads ADD COLUMN IF NOT EXISTS is_relevant BOOLEAN;
+
+CREATE INDEX IF NOT EXISTS idx_ads_relevance ON ads(relevance_score);
@@ -0,0 +1,59 @@
+-- Migration: Incremental fingerprint sync
+-- get-fingerprints pages through stored fingerprints by keyword + location + country instead of one capped list
+
+-- Superseded by fingerprints_page, which has no row cap
+DROP FUNCTION IF EXISTS get_existing_fingerprints(TEXT[]);
+
+CREATE INDEX IF NOT EXISTS idx_ads_search_scope ON ads(search_query, search_location, search_country);
+
+-- Fingerprints of ads found under one of the scopes and seen within the last p_max_age_days days.
+-- Scopes are [{keyword, location, country}]; a missing location or country matches any, '' only ads without one.
+-- Ads imported before search_country existed (007) have none, so they match every country.
+-- NULL or [] matches every ad. Scopes are joined as rows, so each one is an idx_ads_search_scope lookup.
+CREATE OR REPLACE FUNCTION scoped_fingerprints(
+  p_scopes JSONB,
+  p_max_age_days INTEGER
+)
+RETURNS TABLE(ad_fingerprint TEXT) AS $$
+  SELECT a.ad_fingerprint
+  FROM ads a
+  WHERE COALESCE(jsonb_array_length(p_scopes), 0) = 0
+    AND (p_max_age_days IS NULL
+      OR COALESCE(a.last_seen_at, a.scraped_at) >= now() - make_interval(days => p_max_age_days))
+  UNION ALL
+  -- Overlapping scopes (one with a location, one without) can match the same ad
+  SELECT DISTINCT a.ad_fingerprint
+  FROM jsonb_to_recordset(p_scopes) AS scope(keyword TEXT, location TEXT, country TEXT)
+  JOIN ads a
+    ON a.search_query = scope.keyword
+    AND (scope.location IS NULL OR a.search_location = scope.location
+      OR (scope.location = '' AND a.search_location IS NULL))
+    AND (scope.country IS NULL OR a.search_country = scope.country OR a.search_country IS NULL)
+  WHERE p_max_age_days IS NULL
+    OR COALESCE(a.last_seen_at, a.scraped_at) >= now() - make_interval(days => p_max_age_days)
+$$ LANGUAGE sql STABLE;
+
+-- One page of fingerprints in order, after p_after (keyset pagination, stable while ads are imported)
+CREATE OR REPLACE FUNCTION fingerprints_page(
+  p_scopes JSONB DEFAULT NULL,
+  p_max_age_days INTEGER DEFAULT NULL,
+  p_after TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 1000
+)
+RETURNS TABLE(ad_fingerprint TEXT) AS $$
+  SELECT f.ad_fingerprint
+  FROM scoped_fingerprints(p_scopes, p_max_age_days) f
+  WHERE p_after IS NULL OR f.ad_fingerprint > p_after
+  ORDER BY f.ad_fingerprint
+  LIMIT p_limit
+$$ LANGUAGE sql STABLE;
+
+-- How many fingerprints a sync will return, to size the Bloom filter up front
+CREATE OR REPLACE FUNCTION count_fingerprints(
+  p_scopes JSONB DEFAULT NULL,
+  p_max_age_days INTEGER DEFAULT NULL
+)
+RETURNS BIGINT AS $$
+  SELECT count(*)
+  FROM scoped_fingerprints(p_scopes, p_max_age_days)
+$$ LANGUAGE sql STABLE;
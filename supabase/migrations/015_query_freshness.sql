@@ -0,0 +1,37 @@
+-- Migration: Query freshness
+-- When each keyword/location/country was last scraped successfully, so the Actor can skip recently covered searches
+
+CREATE TABLE IF NOT EXISTS query_scrapes (
+  search_query TEXT NOT NULL,
+  search_location TEXT NOT NULL DEFAULT '',
+  search_country TEXT NOT NULL DEFAULT '',
+  last_scraped_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_run_id TEXT,
+  -- Ads the search returned, duplicates included
+  ad_count INTEGER NOT NULL DEFAULT 0,
+  -- Whether that was the full result set (not capped at maxAdsPerQuery or cut short at known ads)
+  complete BOOLEAN NOT NULL DEFAULT false,
+
+  PRIMARY KEY (search_query, search_location, search_country)
+);
+
+CREATE INDEX IF NOT EXISTS idx_query_scrapes_last_scraped_at ON query_scrapes(last_scraped_at DESC);
+
+-- Record a finished search (used by import-ads)
+CREATE OR REPLACE FUNCTION record_query_scrape(
+  p_run_id TEXT,
+  p_query TEXT,
+  p_location TEXT,
+  p_country TEXT,
+  p_ad_count INTEGER,
+  p_complete BOOLEAN
+)
+RETURNS VOID AS $$
+  INSERT INTO query_scrapes (search_query, search_location, search_country, last_scraped_at, last_run_id, ad_count, complete)
+  VALUES (p_query, COALESCE(p_location, ''), COALESCE(p_country, ''), now(), p_run_id, p_ad_count, p_complete)
+  ON CONFLICT (search_query, search_location, search_country) DO UPDATE SET
+    last_scraped_at = EXCLUDED.last_scraped_at,
+    last_run_id = EXCLUDED.last_run_id,
+    ad_count = EXCLUDED.ad_count,
+    complete = EXCLUDED.complete;
+$$ LANGUAGE sql;
@@ -0,0 +1,117 @@
+-- Migration: Creative group matching
+-- link_creative_groups compares copy the way the Actor does (Jaccard similarity of word sets, not trigrams)
+-- and finds near-identical images through an index instead of comparing every stored hash
+
+-- Distinct words of ad copy, as the Actor's normalizeCopy splits it: lowercase, links dropped, split on non-alphanumerics
+CREATE OR REPLACE FUNCTION copy_words(p_text TEXT)
+RETURNS TEXT[] AS $$
+  SELECT COALESCE(array_agg(DISTINCT word), '{}')
+  FROM regexp_split_to_table(
+    regexp_replace(regexp_replace(lower(COALESCE(p_text, '')), 'https?://\S+', ' ', 'g'), '[^[:alnum:]]+', ' ', 'g'),
+    ' '
+  ) word
+  WHERE word <> ''
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Share of words two texts have in common (0-1), the Actor's textSimilarity
+CREATE OR REPLACE FUNCTION copy_similarity(a TEXT, b TEXT)
+RETURNS REAL AS $$
+  SELECT CASE
+    WHEN cardinality(w.left_words) = 0 OR cardinality(w.right_words) = 0 THEN 0
+    ELSE s.shared::REAL / (cardinality(w.left_words) + cardinality(w.right_words) - s.shared)
+  END
+  FROM (SELECT copy_words(a) AS left_words, copy_words(b) AS right_words) w,
+  LATERAL (SELECT count(*) AS shared FROM unnest(w.left_words) word WHERE word = ANY(w.right_words)) s
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Each 64-bit hash cut into 8 bands of 8 bits, tagged with their position ('3:a7').
+-- Hashes within 7 bits of each other differ in at most 7 bands, so they always share one.
+CREATE OR REPLACE FUNCTION phash_bands(p_hashes TEXT[])
+RETURNS TEXT[] AS $$
+  SELECT COALESCE(array_agg(DISTINCT band || ':' || substr(lower(hash), band * 2 + 1, 2)), '{}')
+  FROM unnest(COALESCE(p_hashes, '{}')) hash, generate_series(0, 7) band
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE INDEX IF NOT EXISTS idx_ads_phash_bands ON ads USING GIN (phash_bands(perceptual_hashes))
+  WHERE creative_group_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_ads_copy_group_advertiser ON ads(advertiser_id)
+  WHERE copy_group_id IS NOT NULL;
+
+-- The actor groups ads within a run; this merges those groups into matching groups stored by earlier runs.
+-- import-ads passes the thresholds the Actor grouped with.
+CREATE OR REPLACE FUNCTION link_creative_groups(
+  p_fingerprints TEXT[],
+  p_max_distance INTEGER DEFAULT 6,
+  p_min_similarity REAL DEFAULT 0.7
+)
+RETURNS INTEGER AS $$
+DECLARE
+  linked INTEGER := 0;
+  fingerprint TEXT;
+  target RECORD;
+  existing TEXT;
+BEGIN
+  FOREACH fingerprint IN ARRAY p_fingerprints LOOP
+    -- Re-read each time, an earlier iteration may already have moved this ad's group
+    SELECT creative_group_id, copy_group_id, perceptual_hashes, advertiser_id, ad_text
+    INTO target
+    FROM ads
+    WHERE ad_fingerprint = fingerprint;
+
+    IF NOT FOUND THEN
+      CONTINUE;
+    END IF;
+
+    IF target.creative_group_id IS NOT NULL AND target.perceptual_hashes IS NOT NULL THEN
+      existing := NULL;
+
+      IF p_max_distance <= 7 THEN
+        -- Candidates share a band with one of the target's hashes (idx_ads_phash_bands)
+        SELECT o.creative_group_id INTO existing
+        FROM ads o, unnest(o.perceptual_hashes) known, unnest(target.perceptual_hashes) incoming
+        WHERE phash_bands(o.perceptual_hashes) && phash_bands(target.perceptual_hashes)
+          AND o.creative_group_id IS NOT NULL
+          AND o.creative_group_id <> target.creative_group_id
+          AND NOT (o.ad_fingerprint = ANY(p_fingerprints))
+          AND phash_distance(known, incoming) <= p_max_distance
+        ORDER BY o.first_seen_at
+        LIMIT 1;
+      ELSE
+        -- Wider than the bands can answer, so every stored hash is compared
+        SELECT o.creative_group_id INTO existing
+        FROM ads o, unnest(o.perceptual_hashes) known, unnest(target.perceptual_hashes) incoming
+        WHERE o.creative_group_id IS NOT NULL
+          AND o.creative_group_id <> target.creative_group_id
+          AND NOT (o.ad_fingerprint = ANY(p_fingerprints))
+          AND phash_distance(known, incoming) <= p_max_distance
+        ORDER BY o.first_seen_at
+        LIMIT 1;
+      END IF;
+
+      IF existing IS NOT NULL THEN
+        UPDATE ads SET creative_group_id = existing WHERE creative_group_id = target.creative_group_id;
+        linked := linked + 1;
+      END IF;
+    END IF;
+
+    IF target.copy_group_id IS NOT NULL AND COALESCE(target.ad_text, '') <> '' THEN
+      SELECT o.copy_group_id INTO existing
+      FROM ads o
+      WHERE o.advertiser_id = target.advertiser_id
+        AND o.copy_group_id IS NOT NULL
+        AND o.copy_group_id <> target.copy_group_id
+        AND NOT (o.ad_fingerprint = ANY(p_fingerprints))
+        AND copy_similarity(o.ad_text, target.ad_text) >= p_min_similarity
+      ORDER BY o.first_seen_at
+      LIMIT 1;
+
+      IF existing IS NOT NULL THEN
+        UPDATE ads SET copy_group_id = existing WHERE copy_group_id = target.copy_group_id;
+        linked := linked + 1;
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN linked;
+END;
+$$ LANGUAGE plpgsql;